@@ -128,18 +128,24 @@ class OkHttpConfig {
      * User-Agent 拦截器
      */
     private class UserAgentInterceptor : okhttp3.Interceptor {
+        companion object {
+            private val DEFAULT_HEADERS = mapOf(
+                "User-Agent" to "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+                "Accept" to "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
+                "Accept-Language" to "zh-CN,zh;q=0.9,en;q=0.8"
+            )
+        }
+        
         override fun intercept(chain: okhttp3.Interceptor.Chain): okhttp3.Response {
-            val request = chain.request().newBuilder()
-                .header(
-                    "User-Agent",
-                    "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36"
-                )
-                .header("Accept", "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8")
-                .header("Accept-Language", "zh-CN,zh;q=0.9,en;q=0.8")
-                .header("Accept-Encoding", "gzip, deflate")
-                .build()
+            val original = chain.request()
+            val builder = original.newBuilder()
+            // 只补充请求中没有的头，调试时修改的请求头不会被覆盖
+            DEFAULT_HEADERS.forEach { (name, value) ->
+                if (original.header(name) == null) builder.header(name, value)
+            }
             
-            return chain.proceed(request)
+            // Accept-Encoding 交给 OkHttp 处理，手动设置后响应不会自动解压
+            return chain.proceed(builder.build())
         }
     }
     
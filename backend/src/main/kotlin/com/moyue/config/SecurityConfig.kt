@@ -94,7 +94,7 @@ class SecurityConfig {
                         ).permitAll()
                         
                         // 调试端点（仅开发环境）
-                        .requestMatchers("/api/debug/**").hasRole("ADMIN")
+                        .requestMatchers("/api/debug/**", "/ws/debug/**").hasRole("ADMIN")
                         
                         // 其他请求需要认证
                         .anyRequest().authenticated()
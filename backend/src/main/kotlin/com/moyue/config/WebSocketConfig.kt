@@ -0,0 +1,29 @@
+package com.moyue.config
+ 
+import com.moyue.debug.DebugLogWebSocketHandler
+import org.springframework.context.annotation.Configuration
+import org.springframework.web.socket.config.annotation.EnableWebSocket
+import org.springframework.web.socket.config.annotation.WebSocketConfigurer
+import org.springframework.web.socket.config.annotation.WebSocketHandlerRegistry
+ 
+/**
+ * WebSocket 配置
+ *
+ * Spring Boot 4.0.3 + Kotlin 2.3.10
+ *
+ * 端点统一放在 /ws 下，开发模式由 Vite 代理
+ *
+ * @author Moyue Team
+ * @since 4.0.3
+ */
+@Configuration
+@EnableWebSocket
+class WebSocketConfig(
+    private val debugLogWebSocketHandler: DebugLogWebSocketHandler
+) : WebSocketConfigurer {
+    
+    override fun registerWebSocketHandlers(registry: WebSocketHandlerRegistry) {
+        registry.addHandler(debugLogWebSocketHandler, "/ws/debug/logs")
+            .setAllowedOriginPatterns("*")
+    }
+}
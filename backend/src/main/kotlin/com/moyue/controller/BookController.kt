@@ -114,6 +114,70 @@ class BookController(
         )
     }
     
+    /**
+     * 通过书源在线搜索书籍
+     *
+     * 指定 sourceId 时只搜索该书源，前端据此逐个书源并发请求并展示各自耗时
+     */
+    @PostMapping("/search")
+    fun searchOnline(@RequestBody @Valid request: SearchOnlineRequest): ResponseEntity<ApiResponse<List<Map<String, Any>>>> {
+        logger.info("在线搜索书籍: ${request.keyword}, source=${request.sourceId ?: "all"}")
+        
+        return try {
+            // 指定书源时书源的错误直接返回，前端据此把该书源标记为失败
+            val results = request.sourceId
+                ?.let { sourceService.searchSource(request.keyword, it) }
+                ?: sourceService.searchBook(keyword = request.keyword)
+            ResponseEntity.ok(
+                ApiResponse.success(
+                    data = results,
+                    message = "搜索完成，找到 ${results.size} 个结果"
+                )
+            )
+        } catch (e: Exception) {
+            logger.error("在线搜索失败", e)
+            ResponseEntity.status(HttpStatus.INTERNAL_SERVER_ERROR).body(
+                ApiResponse.error(
+                    code = "SEARCH_FAILED",
+                    message = "搜索失败: ${e.message}"
+                )
+            )
+        }
+    }
+    
+    /**
+     * 预览书籍详情（执行书源的书籍信息规则，不加入书架）
+     */
+    @PostMapping("/info")
+    fun previewBookInfo(@RequestBody @Valid request: BookInfoRequest): ResponseEntity<ApiResponse<Map<String, Any>>> {
+        logger.debug("预览书籍详情: ${request.bookUrl}, source=${request.sourceId}")
+        
+        return try {
+            val info = sourceService.getBookInfo(request.bookUrl, request.sourceId)
+            ResponseEntity.ok(
+                ApiResponse.success(
+                    data = info,
+                    message = "获取成功"
+                )
+            )
+        } catch (e: IllegalArgumentException) {
+            ResponseEntity.status(HttpStatus.NOT_FOUND).body(
+                ApiResponse.error(
+                    code = "SOURCE_NOT_FOUND",
+                    message = e.message ?: "书源不存在: ${request.sourceId}"
+                )
+            )
+        } catch (e: Exception) {
+            logger.error("获取书籍详情失败", e)
+            ResponseEntity.status(HttpStatus.INTERNAL_SERVER_ERROR).body(
+                ApiResponse.error(
+                    code = "GET_BOOK_INFO_FAILED",
+                    message = "获取失败: ${e.message}"
+                )
+            )
+        }
+    }
+    
     /**
      * 获取最近阅读的书籍
      */
@@ -338,6 +402,50 @@ class BookController(
         }
     }
     
+    /**
+     * 换源：将书籍迁移到另一个书源
+     *
+     * 章节对应关系由前端按章节标题匹配后传入
+     */
+    @PutMapping("/{id}/source")
+    fun changeSource(
+        @PathVariable id: String,
+        @RequestBody @Valid request: ChangeSourceRequest
+    ): ResponseEntity<ApiResponse<Book>> {
+        logger.info("书籍换源: $id -> ${request.sourceId}")
+        
+        return try {
+            val book = bookService.changeSource(
+                id = id,
+                sourceId = request.sourceId,
+                bookUrl = request.bookUrl,
+                chapterIndex = request.chapterIndex,
+                chapterCount = request.chapterCount
+            )
+            ResponseEntity.ok(
+                ApiResponse.success(
+                    data = book,
+                    message = "换源成功"
+                )
+            )
+        } catch (e: IllegalArgumentException) {
+            ResponseEntity.status(HttpStatus.NOT_FOUND).body(
+                ApiResponse.error(
+                    code = "CHANGE_SOURCE_FAILED",
+                    message = e.message ?: "书籍或书源不存在"
+                )
+            )
+        } catch (e: Exception) {
+            logger.error("换源失败", e)
+            ResponseEntity.status(HttpStatus.INTERNAL_SERVER_ERROR).body(
+                ApiResponse.error(
+                    code = "CHANGE_SOURCE_FAILED",
+                    message = "换源失败: ${e.message}"
+                )
+            )
+        }
+    }
+    
     // ==================== 删除操作 ====================
     
     /**
@@ -456,13 +564,52 @@ class BookController(
         }
     }
     
+    /**
+     * 预览书源中的章节列表（书籍未加入书架时使用，如换源候选）
+     */
+    @PostMapping("/chapters/preview")
+    fun previewChapters(@RequestBody @Valid request: BookInfoRequest): ResponseEntity<ApiResponse<Map<String, Any>>> {
+        logger.debug("预览章节列表: ${request.bookUrl}, source=${request.sourceId}")
+        
+        return try {
+            val chapters = sourceService.getChapterList(request.bookUrl, request.sourceId)
+            ResponseEntity.ok(
+                ApiResponse.success(
+                    data = mapOf(
+                        "chapters" to chapters,
+                        "total" to chapters.size
+                    ),
+                    message = "获取成功"
+                )
+            )
+        } catch (e: IllegalArgumentException) {
+            ResponseEntity.status(HttpStatus.NOT_FOUND).body(
+                ApiResponse.error(
+                    code = "SOURCE_NOT_FOUND",
+                    message = e.message ?: "书源不存在: ${request.sourceId}"
+                )
+            )
+        } catch (e: Exception) {
+            logger.error("预览章节列表失败", e)
+            ResponseEntity.status(HttpStatus.INTERNAL_SERVER_ERROR).body(
+                ApiResponse.error(
+                    code = "GET_CHAPTERS_FAILED",
+                    message = "获取失败: ${e.message}"
+                )
+            )
+        }
+    }
+    
     /**
      * 获取章节内容
+     *
+     * 离线下载时传 updateProgress=false，避免改动阅读进度
      */
     @GetMapping("/{id}/chapters/{chapterIndex}/content")
     fun getChapterContent(
         @PathVariable id: String,
-        @PathVariable chapterIndex: Int
+        @PathVariable chapterIndex: Int,
+        @RequestParam(defaultValue = "true") updateProgress: Boolean
     ): ResponseEntity<ApiResponse<Map<String, Any>>> {
         logger.debug("获取章节内容: $id, 章节: $chapterIndex")
         
@@ -487,7 +634,9 @@ class BookController(
             )
             
             // 更新阅读进度
-            bookService.updateReadingProgress(id, chapterIndex, chapter.url)
+            if (updateProgress) {
+                bookService.updateReadingProgress(id, chapterIndex, chapter.url)
+            }
             
             ResponseEntity.ok(
                 ApiResponse.success(
@@ -538,6 +687,27 @@ class BookController(
         val sourceId: String? = null
     )
     
+    /**
+     * 在线搜索请求
+     */
+    data class SearchOnlineRequest(
+        @field:NotBlank(message = "搜索关键词不能为空")
+        val keyword: String,
+        
+        val sourceId: String? = null
+    )
+    
+    /**
+     * 书籍详情预览请求
+     */
+    data class BookInfoRequest(
+        @field:NotBlank(message = "书籍 URL 不能为空")
+        val bookUrl: String,
+        
+        @field:NotBlank(message = "书源 ID 不能为空")
+        val sourceId: String
+    )
+    
     /**
      * 更新书籍请求
      */
@@ -556,6 +726,21 @@ class BookController(
         val chapterUrl: String? = null
     )
     
+    /**
+     * 换源请求
+     */
+    data class ChangeSourceRequest(
+        @field:NotBlank(message = "书源 ID 不能为空")
+        val sourceId: String,
+        
+        @field:NotBlank(message = "书籍 URL 不能为空")
+        val bookUrl: String,
+        
+        val chapterIndex: Int = 0,
+        
+        val chapterCount: Int? = null
+    )
+    
     /**
      * 删除书籍请求
      */
@@ -1,7 +1,10 @@
 package com.moyue.controller
  
+import com.moyue.debug.HttpInspector
+import com.moyue.debug.SourceDebugger
 import com.moyue.engine.RhinoEngine
 import com.moyue.model.BookSource
+import com.moyue.model.BookSourceRules
 import com.moyue.service.CacheService
 import com.moyue.service.PreferenceService
 import com.moyue.service.SourceService
@@ -42,7 +45,9 @@ class DebugController(
     private val cacheService: CacheService,
     private val preferenceService: PreferenceService,
     private val cacheManager: CacheManager,
-    private val asyncExecutor: Executor
+    private val asyncExecutor: Executor,
+    private val httpInspector: HttpInspector,
+    private val sourceDebugger: SourceDebugger
 ) {
     
     private val logger = LoggerFactory.getLogger(DebugController::class.java)
@@ -200,37 +205,45 @@ class DebugController(
      * 测试书源 URL
      */
     @PostMapping("/source/test-url")
-    fun testSourceUrl(@RequestBody request: TestUrlRequest): ResponseEntity<BookController.ApiResponse<Map<String, Any>>> {
-        logger.info("测试书源 URL: ${request.url}")
+    fun testSourceUrl(@RequestBody request: TestUrlRequest): ResponseEntity<BookController.ApiResponse<Map<String, Any?>>> {
+        logger.info("测试书源 URL: ${request.method} ${request.url}")
         
-        return try {
-            val start = System.currentTimeMillis()
-            val result = rhinoEngine.checkUrl(request.url)
-            val elapsed = System.currentTimeMillis() - start
-            
-            ResponseEntity.ok(
-                BookController.ApiResponse.success(
-                    data = mapOf(
-                        "success" to result,
-                        "elapsed" to elapsed,
-                        "url" to request.url
-                    ),
-                    message = if (result) "URL 可访问" else "URL 不可访问"
-                )
-            )
-        } catch (e: Exception) {
-            logger.error("测试 URL 失败", e)
-            ResponseEntity.ok(
-                BookController.ApiResponse.success(
-                    data = mapOf(
-                        "success" to false,
-                        "error" to e.message,
-                        "url" to request.url
-                    ),
-                    message = "测试失败"
+        // 从调试器的网络面板发起（包括修改后重放）时，使用会话书源的安全策略
+        val session = request.sessionId?.let { id ->
+            sourceDebugger.getSession(id) ?: return ResponseEntity.status(HttpStatus.NOT_FOUND).body(
+                BookController.ApiResponse.error(
+                    code = "SESSION_NOT_FOUND",
+                    message = "调试会话不存在: $id"
                 )
             )
         }
+        
+        val (exchange, _) = httpInspector.execute(
+            HttpInspector.ExchangeRequest(
+                method = request.method,
+                url = request.url,
+                headers = request.headers ?: emptyMap(),
+                body = request.body
+            ),
+            origin = "test-url",
+            policy = session?.let { sourceDebugger.securityPolicyOf(it) } ?: httpInspector.defaultPolicy,
+            forcedCharset = request.charset,
+            timeoutSeconds = request.timeout.toLong()
+        )
+        session?.let { sourceDebugger.recordRequest(it, exchange) }
+        
+        return ResponseEntity.ok(
+            BookController.ApiResponse.success(
+                data = mapOf(
+                    "success" to exchange.success,
+                    "elapsed" to exchange.duration,
+                    "url" to request.url,
+                    "error" to exchange.error,
+                    "exchange" to exchange
+                ),
+                message = if (exchange.success) "URL 可访问" else "URL 不可访问"
+            )
+        )
     }
     
     /**
@@ -242,7 +255,7 @@ class DebugController(
         
         return try {
             val source = sourceService.getSourceById(request.sourceId)
-            val rules = source.rules
+            val rules = request.rules ?: source.rules
             
             val start = System.currentTimeMillis()
             
@@ -610,7 +623,14 @@ class DebugController(
      */
     data class TestUrlRequest(
         val url: String,
-        val timeout: Int = 10
+        val timeout: Int = 10,
+        val method: String = "GET",
+        val headers: Map<String, String>? = null,
+        val body: String? = null,
+        // 指定响应编码，为空时自动识别
+        val charset: String? = null,
+        // 调试会话 ID，请求会记录到该会话的网络面板
+        val sessionId: String? = null
     )
     
     /**
@@ -621,7 +641,9 @@ class DebugController(
         val ruleType: String,  // search, book, chapter, content
         val keyword: String? = null,
         val bookUrl: String? = null,
-        val chapterUrl: String? = null
+        val chapterUrl: String? = null,
+        // 编辑中尚未保存的规则，为空时使用已保存的规则
+        val rules: BookSourceRules? = null
     )
     
     /**
@@ -0,0 +1,271 @@
+package com.moyue.controller
+ 
+import com.moyue.debug.HttpInspector
+import com.moyue.debug.SourceDebugger
+import org.slf4j.LoggerFactory
+import org.springframework.http.HttpStatus
+import org.springframework.http.ResponseEntity
+import org.springframework.web.bind.annotation.*
+ 
+/**
+ * 调试会话控制器
+ *
+ * 功能：
+ * - 创建和删除调试会话
+ * - 分步调试：搜索 → 详情 → 目录 → 正文
+ * - 修改会话中的规则后重新运行单个步骤
+ * - 会话日志、网络请求记录和规则测试
+ *
+ * 注意：此控制器仅用于开发调试，生产环境应禁用
+ *
+ * @author Moyue Team
+ * @since 4.0.3
+ */
+@RestController
+@RequestMapping("/api/debug/session")
+class DebugSessionController(
+    private val sourceDebugger: SourceDebugger
+) {
+    
+    private val logger = LoggerFactory.getLogger(DebugSessionController::class.java)
+    
+    // ==================== 会话管理 ====================
+    
+    /**
+     * 创建调试会话
+     */
+    @PostMapping
+    fun createSession(@RequestBody request: CreateSessionRequest): ResponseEntity<BookController.ApiResponse<Map<String, Any?>>> {
+        logger.info("创建调试会话: ${request.sourceId}")
+        
+        val sessionId = sourceDebugger.createSession(request.sourceId)
+        val session = sourceDebugger.getSession(sessionId)
+        
+        return ResponseEntity.ok(
+            BookController.ApiResponse.success(
+                data = mapOf(
+                    "sessionId" to sessionId,
+                    "sourceId" to request.sourceId,
+                    "hasRules" to (session?.rules != null),
+                    "stageRules" to sourceDebugger.getStageRules(sessionId)
+                ),
+                message = "会话已创建"
+            )
+        )
+    }
+    
+    /**
+     * 删除调试会话
+     */
+    @DeleteMapping("/{sessionId}")
+    fun deleteSession(@PathVariable sessionId: String): ResponseEntity<BookController.ApiResponse<Unit>> {
+        return if (sourceDebugger.deleteSession(sessionId)) {
+            ResponseEntity.ok(BookController.ApiResponse.success(message = "会话已删除"))
+        } else {
+            sessionNotFound(sessionId)
+        }
+    }
+    
+    // ==================== 分步调试 ====================
+    
+    /**
+     * 运行调试步骤
+     *
+     * 请求中带有规则时先写入会话的规则副本，再运行该步骤
+     */
+    @PostMapping("/{sessionId}/stages/{stage}")
+    fun runStage(
+        @PathVariable sessionId: String,
+        @PathVariable stage: String,
+        @RequestBody request: RunStageRequest
+    ): ResponseEntity<BookController.ApiResponse<SourceDebugger.DebugStage>> {
+        logger.debug("运行调试步骤: $sessionId, $stage")
+        
+        return try {
+            request.rules?.takeIf { it.isNotEmpty() }?.let { sourceDebugger.updateRules(sessionId, it) }
+            val result = sourceDebugger.runStage(sessionId, stage, request.input, request.bookUrl)
+            ResponseEntity.ok(
+                BookController.ApiResponse.success(
+                    data = result,
+                    message = if (result.success) "调试完成" else "调试失败"
+                )
+            )
+        } catch (e: IllegalArgumentException) {
+            ResponseEntity.status(HttpStatus.BAD_REQUEST).body(
+                BookController.ApiResponse.error(
+                    code = "INVALID_STAGE",
+                    message = e.message ?: "参数错误"
+                )
+            )
+        } catch (e: IllegalStateException) {
+            ResponseEntity.status(HttpStatus.BAD_REQUEST).body(
+                BookController.ApiResponse.error(
+                    code = "SOURCE_NOT_READY",
+                    message = e.message ?: "书源不可调试"
+                )
+            )
+        }
+    }
+    
+    // ==================== 脚本执行 ====================
+    
+    /**
+     * 执行书源脚本中的函数
+     *
+     * 执行到断点行时记录变量快照，结果中的 trace 可按顺序回放
+     */
+    @PostMapping("/{sessionId}/execute")
+    fun execute(
+        @PathVariable sessionId: String,
+        @RequestBody request: ExecuteRequest
+    ): ResponseEntity<BookController.ApiResponse<SourceDebugger.ExecuteResult>> {
+        if (sourceDebugger.getSession(sessionId) == null) return sessionNotFound(sessionId)
+        
+        val context = listOfNotNull(
+            request.result?.let { "result" to it },
+            request.baseUrl?.let { "baseUrl" to it }
+        ).toMap()
+        val result = sourceDebugger.executeCode(
+            sessionId,
+            request.code,
+            request.function,
+            request.args,
+            request.breakpoints.toSet(),
+            context
+        )
+        return ResponseEntity.ok(
+            BookController.ApiResponse.success(
+                data = result,
+                message = if (result.success) "执行完成" else "执行失败"
+            )
+        )
+    }
+    
+    // ==================== 日志 ====================
+    
+    /**
+     * 获取会话日志
+     */
+    @GetMapping("/{sessionId}/logs")
+    fun getLogs(@PathVariable sessionId: String): ResponseEntity<BookController.ApiResponse<List<Map<String, Any?>>>> {
+        if (sourceDebugger.getSession(sessionId) == null) return sessionNotFound(sessionId)
+        
+        return ResponseEntity.ok(
+            BookController.ApiResponse.success(
+                data = sourceDebugger.getLogs(sessionId),
+                message = "获取成功"
+            )
+        )
+    }
+    
+    /**
+     * 清空会话日志
+     */
+    @DeleteMapping("/{sessionId}/logs")
+    fun clearLogs(@PathVariable sessionId: String): ResponseEntity<BookController.ApiResponse<Unit>> {
+        if (sourceDebugger.getSession(sessionId) == null) return sessionNotFound(sessionId)
+        
+        sourceDebugger.clearLogs(sessionId)
+        return ResponseEntity.ok(BookController.ApiResponse.success(message = "日志已清空"))
+    }
+    
+    // ==================== 网络请求 ====================
+    
+    /**
+     * 获取会话中发出的请求
+     */
+    @GetMapping("/{sessionId}/requests")
+    fun getRequests(@PathVariable sessionId: String): ResponseEntity<BookController.ApiResponse<List<HttpInspector.Exchange>>> {
+        if (sourceDebugger.getSession(sessionId) == null) return sessionNotFound(sessionId)
+        
+        return ResponseEntity.ok(
+            BookController.ApiResponse.success(
+                data = sourceDebugger.getRequests(sessionId),
+                message = "获取成功"
+            )
+        )
+    }
+    
+    /**
+     * 清空请求记录
+     */
+    @DeleteMapping("/{sessionId}/requests")
+    fun clearRequests(@PathVariable sessionId: String): ResponseEntity<BookController.ApiResponse<Unit>> {
+        if (sourceDebugger.getSession(sessionId) == null) return sessionNotFound(sessionId)
+        
+        sourceDebugger.clearRequests(sessionId)
+        return ResponseEntity.ok(BookController.ApiResponse.success(message = "请求记录已清空"))
+    }
+    
+    // ==================== 规则测试 ====================
+    
+    /**
+     * 对给定内容测试单条规则
+     */
+    @PostMapping("/{sessionId}/test-rule")
+    fun testRule(
+        @PathVariable sessionId: String,
+        @RequestBody request: TestRuleRequest
+    ): ResponseEntity<BookController.ApiResponse<SourceDebugger.RuleTestResult>> {
+        val result = sourceDebugger.testRule(sessionId, request.ruleType, request.rule, request.html)
+        return ResponseEntity.ok(
+            BookController.ApiResponse.success(
+                data = result,
+                message = if (result.success) "测试完成" else "测试失败"
+            )
+        )
+    }
+    
+    private fun <T> sessionNotFound(sessionId: String): ResponseEntity<BookController.ApiResponse<T>> {
+        return ResponseEntity.status(HttpStatus.NOT_FOUND).body(
+            BookController.ApiResponse.error(
+                code = "SESSION_NOT_FOUND",
+                message = "会话不存在或已过期: $sessionId"
+            )
+        )
+    }
+    
+    // ==================== 请求 DTO ====================
+    
+    /**
+     * 创建会话请求
+     */
+    data class CreateSessionRequest(
+        val sourceId: String
+    )
+    
+    /**
+     * 运行步骤请求
+     */
+    data class RunStageRequest(
+        // 搜索关键字、书籍地址或章节地址
+        val input: String,
+        // 运行正文步骤时所属书籍的地址
+        val bookUrl: String? = null,
+        // 修改后的规则字段，只需包含有变化的字段
+        val rules: Map<String, String?>? = null
+    )
+    
+    /**
+     * 执行脚本请求
+     */
+    data class ExecuteRequest(
+        val code: String,
+        val function: String,
+        val args: List<String> = emptyList(),
+        // 断点所在的行号，从 1 开始
+        val breakpoints: List<Int> = emptyList(),
+        // 脚本中的 result 和 baseUrl，通常取自调试步骤的响应
+        val result: String? = null,
+        val baseUrl: String? = null
+    )
+    
+    /**
+     * 测试规则请求
+     */
+    data class TestRuleRequest(
+        val ruleType: String,  // css, regex, json
+        val rule: String,
+        val html: String
+    )
+}
@@ -0,0 +1,172 @@
+package com.moyue.controller
+ 
+import com.moyue.debug.SourceDebugger
+import com.moyue.model.SourceFixture
+import com.moyue.service.FixtureService
+import org.slf4j.LoggerFactory
+import org.springframework.http.HttpStatus
+import org.springframework.http.ResponseEntity
+import org.springframework.web.bind.annotation.*
+ 
+/**
+ * 书源测试用例控制器
+ *
+ * 功能：
+ * - 保存、修改和删除测试用例
+ * - 运行单个书源或全部书源的用例
+ *
+ * 注意：此控制器仅用于开发调试，生产环境应禁用
+ *
+ * @author Moyue Team
+ * @since 4.0.3
+ */
+@RestController
+@RequestMapping("/api/debug/fixtures")
+class FixtureController(
+    private val fixtureService: FixtureService,
+    private val sourceDebugger: SourceDebugger
+) {
+ 
+    private val logger = LoggerFactory.getLogger(FixtureController::class.java)
+    
+    /**
+     * 获取书源的测试用例
+     */
+    @GetMapping
+    fun getFixtures(@RequestParam sourceId: String): ResponseEntity<BookController.ApiResponse<List<SourceFixture>>> {
+        return ResponseEntity.ok(
+            BookController.ApiResponse.success(
+                data = fixtureService.getFixtures(sourceId),
+                message = "获取成功"
+            )
+        )
+    }
+    
+    /**
+     * 保存测试用例
+     *
+     * 不带期望结果时，用书源当前的规则提取一次作为期望结果；
+     * 带上调试会话 ID 时使用会话中修改过的规则
+     */
+    @PostMapping
+    fun createFixture(@RequestBody request: CreateFixtureRequest): ResponseEntity<BookController.ApiResponse<SourceFixture>> {
+        val fixture = fixtureService.createFixture(
+            SourceFixture(
+                sourceId = request.sourceId,
+                name = request.name.ifBlank { "${request.stage} ${request.url}" }.take(200),
+                stage = request.stage,
+                url = request.url,
+                input = request.input,
+                body = request.body,
+                contentType = request.contentType,
+                expected = request.expected ?: ""
+            ),
+            sessionRules(request.sessionId, request.sourceId)
+        )
+        return ResponseEntity.status(HttpStatus.CREATED).body(
+            BookController.ApiResponse.success(
+                data = fixture,
+                message = "测试用例已保存"
+            )
+        )
+    }
+    
+    /**
+     * 修改用例名称或期望结果
+     */
+    @PutMapping("/{id}")
+    fun updateFixture(
+        @PathVariable id: String,
+        @RequestBody request: UpdateFixtureRequest
+    ): ResponseEntity<BookController.ApiResponse<SourceFixture>> {
+        return ResponseEntity.ok(
+            BookController.ApiResponse.success(
+                data = fixtureService.updateFixture(id, request.name, request.expected),
+                message = "测试用例已更新"
+            )
+        )
+    }
+    
+    /**
+     * 删除测试用例
+     */
+    @DeleteMapping("/{id}")
+    fun deleteFixture(@PathVariable id: String): ResponseEntity<BookController.ApiResponse<Unit>> {
+        return if (fixtureService.deleteFixture(id)) {
+            ResponseEntity.ok(BookController.ApiResponse.success(message = "测试用例已删除"))
+        } else {
+            ResponseEntity.status(HttpStatus.NOT_FOUND).body(
+                BookController.ApiResponse.error(
+                    code = "FIXTURE_NOT_FOUND",
+                    message = "测试用例不存在: $id"
+                )
+            )
+        }
+    }
+    
+    /**
+     * 运行测试用例
+     *
+     * 指定书源时只运行该书源的用例，带上调试会话 ID 时使用会话中修改过的规则；
+     * 不指定书源时运行全部书源的用例
+     */
+    @PostMapping("/run")
+    fun runFixtures(@RequestBody request: RunFixturesRequest): ResponseEntity<BookController.ApiResponse<List<FixtureService.FixtureReport>>> {
+        val reports = if (request.sourceId == null) {
+            fixtureService.runAll()
+        } else {
+            val rules = sessionRules(request.sessionId, request.sourceId)
+            listOf(fixtureService.runSource(request.sourceId, rules, request.fixtureIds?.toSet()))
+        }
+        
+        val failed = reports.sumOf { it.failed }
+        logger.info("运行测试用例: ${reports.size} 个书源, 失败 $failed 个")
+        return ResponseEntity.ok(
+            BookController.ApiResponse.success(
+                data = reports,
+                message = if (failed == 0) "全部通过" else "$failed 个用例未通过"
+            )
+        )
+    }
+    
+    // 调试会话中的规则副本，会话属于其他书源时忽略
+    private fun sessionRules(sessionId: String?, sourceId: String) = sessionId
+        ?.let { sourceDebugger.getSession(it) }
+        ?.takeIf { it.sourceId == sourceId }
+        ?.rules
+    
+    // ==================== 请求 DTO ====================
+    
+    /**
+     * 保存用例请求
+     */
+    data class CreateFixtureRequest(
+        val sourceId: String,
+        val name: String = "",
+        val stage: String,
+        val url: String,
+        val input: String? = null,
+        val body: String,
+        val contentType: String? = null,
+        // 期望结果（JSON），为空时用当前规则提取
+        val expected: String? = null,
+        val sessionId: String? = null
+    )
+    
+    /**
+     * 修改用例请求
+     */
+    data class UpdateFixtureRequest(
+        val name: String? = null,
+        val expected: String? = null
+    )
+    
+    /**
+     * 运行用例请求
+     */
+    data class RunFixturesRequest(
+        val sourceId: String? = null,
+        val fixtureIds: List<String>? = null,
+        val sessionId: String? = null
+    )
+}
@@ -1,8 +1,10 @@
 package com.moyue.controller
  
+import com.moyue.security.SecurityEventLog
 import com.moyue.security.SecurityLevel
 import com.moyue.service.SecurityService
 import org.slf4j.LoggerFactory
+import org.springframework.data.domain.Page
 import org.springframework.http.HttpStatus
 import org.springframework.http.ResponseEntity
 import org.springframework.web.bind.annotation.*
@@ -21,6 +23,7 @@ import jakarta.validation.constraints.NotBlank
  * - Token 管理（生成/刷新/验证）
  * - 密码管理（修改/重置）
  * - 安全策略管理
+ * - 安全事件日志
  *
  * @author Moyue Team
  * @since 4.0.3
@@ -264,6 +267,8 @@ class SecurityController(
                         "allowsNetwork" to policy.allowsNetwork,
                         "allowsFileSystem" to policy.allowsFileSystem,
                         "allowsSystem" to policy.allowsSystem,
+                        "allowsReflection" to policy.allowsReflection,
+                        "allowsNative" to policy.allowsNative,
                         "maxExecutionTime" to policy.maxExecutionTime,
                         "sandboxEnabled" to policy.sandboxEnabled
                     )
@@ -273,6 +278,35 @@ class SecurityController(
         )
     }
     
+    /**
+     * 获取全部安全等级
+     *
+     * 受信模式不限制执行时间，maxExecutionTime 返回 null
+     */
+    @GetMapping("/policy/levels")
+    fun getSecurityLevels(): ResponseEntity<BookController.ApiResponse<List<Map<String, Any?>>>> {
+        val levels = SecurityLevel.allLevels().map { level ->
+            mapOf(
+                "level" to level.name.lowercase(),
+                "description" to level.description,
+                "allowsNetwork" to level.allowsNetwork,
+                "allowsFileSystem" to level.allowsFileSystem,
+                "allowsSystem" to level.allowsSystem,
+                "allowsReflection" to level.allowsReflection,
+                "allowsNative" to level.allowsNative,
+                "maxExecutionTime" to level.maxExecutionTime.takeIf { it != Long.MAX_VALUE },
+                "sandboxEnabled" to level.sandboxEnabled
+            )
+        }
+        
+        return ResponseEntity.ok(
+            BookController.ApiResponse.success(
+                data = levels,
+                message = "获取成功"
+            )
+        )
+    }
+    
     /**
      * 设置安全等级
      */
@@ -320,6 +354,61 @@ class SecurityController(
         )
     }
     
+    /**
+     * 按当前安全等级检查书源的代码
+     */
+    @PostMapping("/policy/check-source")
+    fun checkSource(@RequestBody @Valid request: CheckSourceRequest): ResponseEntity<BookController.ApiResponse<SecurityService.SourceCheckResult>> {
+        logger.info("检查书源: ${request.sourceId}")
+        
+        val result = securityService.checkSource(request.sourceId)
+        
+        return ResponseEntity.ok(
+            BookController.ApiResponse.success(
+                data = result,
+                message = if (result.allowed) "检查通过" else "${result.items.count { !it.allowed }} 项被拒绝"
+            )
+        )
+    }
+    
+    // ==================== 安全事件 ====================
+    
+    /**
+     * 分页查询安全事件
+     *
+     * @param allowed 只看允许（true）或拒绝（false）的事件
+     */
+    @GetMapping("/events")
+    fun getEvents(
+        @RequestParam(required = false) type: String?,
+        @RequestParam(required = false) allowed: Boolean?,
+        @RequestParam(required = false) keyword: String?,
+        @RequestParam(defaultValue = "0") page: Int,
+        @RequestParam(defaultValue = "20") size: Int
+    ): ResponseEntity<BookController.ApiResponse<Page<SecurityEventLog.SecurityEvent>>> {
+        return ResponseEntity.ok(
+            BookController.ApiResponse.success(
+                data = securityService.getEvents(type, allowed, keyword, page, size),
+                message = "获取成功"
+            )
+        )
+    }
+    
+    /**
+     * 清空安全事件
+     */
+    @DeleteMapping("/events")
+    fun clearEvents(): ResponseEntity<BookController.ApiResponse<Unit>> {
+        logger.info("清空安全事件")
+        securityService.clearEvents()
+        
+        return ResponseEntity.ok(
+            BookController.ApiResponse.success(
+                message = "安全事件已清空"
+            )
+        )
+    }
+    
     // ==================== 哈希工具 ====================
     
     /**
@@ -461,6 +550,14 @@ class SecurityController(
         val resource: String? = null
     )
     
+    /**
+     * 检查书源请求
+     */
+    data class CheckSourceRequest(
+        @field:NotBlank(message = "书源 ID 不能为空")
+        val sourceId: String
+    )
+    
     /**
      * 生成哈希请求
      */
@@ -1,6 +1,7 @@
 package com.moyue.controller
  
 import com.moyue.model.BookSource
+import com.moyue.model.BookSourceRules
 import com.moyue.service.SourceService
 import org.slf4j.LoggerFactory
 import org.springframework.data.domain.Page
@@ -11,6 +12,8 @@ import org.springframework.web.multipart.MultipartFile
 import org.jspecify.annotations.Nullable
 import java.time.LocalDateTime
 import jakarta.validation.Valid
+import jakarta.validation.constraints.Max
+import jakarta.validation.constraints.Min
 import jakarta.validation.constraints.NotBlank
  
 /**
@@ -150,6 +153,46 @@ class SourceController(
         )
     }
     
+    /**
+     * 获取所有书源规则（导入书源时用于比较规则是否变化）
+     */
+    @GetMapping("/rules")
+    fun getAllRules(): ResponseEntity<BookController.ApiResponse<List<BookSourceRules>>> {
+        logger.debug("获取书源规则")
+        
+        val rules = sourceService.getAllRules()
+        return ResponseEntity.ok(
+            BookController.ApiResponse.success(
+                data = rules,
+                message = "获取成功"
+            )
+        )
+    }
+    
+    /**
+     * 获取书源规则（编辑历史保存完整的书源时使用）
+     */
+    @GetMapping("/{sourceId}/rules")
+    fun getRules(@PathVariable sourceId: String): ResponseEntity<BookController.ApiResponse<BookSourceRules>> {
+        logger.debug("获取书源规则: $sourceId")
+        
+        return try {
+            ResponseEntity.ok(
+                BookController.ApiResponse.success(
+                    data = sourceService.getRules(sourceId),
+                    message = "获取成功"
+                )
+            )
+        } catch (e: IllegalArgumentException) {
+            ResponseEntity.status(HttpStatus.NOT_FOUND).body(
+                BookController.ApiResponse.error(
+                    code = "SOURCE_NOT_FOUND",
+                    message = "书源不存在: $sourceId"
+                )
+            )
+        }
+    }
+    
     // ==================== 保存操作 ====================
     
     /**
@@ -165,8 +208,10 @@ class SourceController(
                 name = request.name,
                 url = request.url,
                 author = request.author,
+                group = request.group,
                 enabled = request.enabled,
-                weight = request.weight
+                weight = request.weight,
+                securityRating = request.securityRating?.takeIf { it > 0 }
             )
             
             val saved = sourceService.saveSource(source)
@@ -231,25 +276,24 @@ class SourceController(
     
     /**
      * 批量导入书源
+     *
+     * 逐个导入并返回每个书源的结果，部分失败时仍返回 200
      */
     @PostMapping("/import/batch")
-    fun importSources(@RequestBody sources: List<BookSource>): ResponseEntity<BookController.ApiResponse<List<BookSource>>> {
-        logger.info("批量导入书源: ${sources.size} 个")
+    fun importSources(
+        @RequestBody request: ImportSourcesRequest
+    ): ResponseEntity<BookController.ApiResponse<Map<String, Any>>> {
+        logger.info("批量导入书源: ${request.sources.size} 个")
         
         return try {
-            val saved = sourceService.importSources(sources)
-            ResponseEntity.status(HttpStatus.CREATED).body(
+            // rules 在 BookSource 上不参与 JSON 序列化，单独传入
+            val sources = request.sources.map { item -> item.source.apply { rules = item.rules } }
+            val result = sourceService.importSources(sources, request.overwrite)
+            val failed = (result["failed"] as List<*>).size
+            ResponseEntity.ok(
                 BookController.ApiResponse.success(
-                    data = saved,
-                    message = "成功导入 ${saved.size} 个书源"
-                )
-            )
-        } catch (e: IllegalArgumentException) {
-            logger.error("批量导入书源失败", e)
-            ResponseEntity.status(HttpStatus.BAD_REQUEST).body(
-                BookController.ApiResponse.error(
-                    code = "IMPORT_SOURCES_FAILED",
-                    message = "导入失败: ${e.message}"
+                    data = result,
+                    message = "导入完成：成功 ${sources.size - failed} 个，失败 $failed 个"
                 )
             )
         } catch (e: Exception) {
@@ -281,8 +325,14 @@ class SourceController(
                 name = request.name ?: existing.name,
                 url = request.url ?: existing.url,
                 author = request.author ?: existing.author,
+                group = request.group ?: existing.group,
                 enabled = request.enabled ?: existing.enabled,
-                weight = request.weight ?: existing.weight
+                weight = request.weight ?: existing.weight,
+                securityRating = when (request.securityRating) {
+                    null -> existing.securityRating
+                    0 -> null  // 0 表示清除评级
+                    else -> request.securityRating
+                }
             )
             
             val saved = sourceService.updateSource(sourceId, updated)
@@ -310,6 +360,41 @@ class SourceController(
         }
     }
     
+    /**
+     * 保存书源规则（ruleId 固定为 sourceId）
+     */
+    @PutMapping("/{sourceId}/rules")
+    fun updateRules(
+        @PathVariable sourceId: String,
+        @RequestBody rules: BookSourceRules
+    ): ResponseEntity<BookController.ApiResponse<BookSourceRules>> {
+        logger.info("更新书源规则: $sourceId")
+        
+        return try {
+            ResponseEntity.ok(
+                BookController.ApiResponse.success(
+                    data = sourceService.updateRules(sourceId, rules),
+                    message = "规则保存成功"
+                )
+            )
+        } catch (e: IllegalArgumentException) {
+            ResponseEntity.status(HttpStatus.NOT_FOUND).body(
+                BookController.ApiResponse.error(
+                    code = "SOURCE_NOT_FOUND",
+                    message = "书源不存在: $sourceId"
+                )
+            )
+        } catch (e: Exception) {
+            logger.error("更新书源规则失败", e)
+            ResponseEntity.status(HttpStatus.INTERNAL_SERVER_ERROR).body(
+                BookController.ApiResponse.error(
+                    code = "UPDATE_RULES_FAILED",
+                    message = "保存规则失败: ${e.message}"
+                )
+            )
+        }
+    }
+    
     /**
      * 启用/禁用书源
      */
@@ -374,6 +459,34 @@ class SourceController(
         }
     }
     
+    /**
+     * 批量设置书源分组
+     */
+    @PatchMapping("/groups")
+    fun updateGroups(
+        @RequestBody request: UpdateGroupsRequest
+    ): ResponseEntity<BookController.ApiResponse<List<BookSource>>> {
+        logger.info("批量设置书源分组: ${request.groups.size} 个")
+        
+        return try {
+            val sources = sourceService.updateGroups(request.groups)
+            ResponseEntity.ok(
+                BookController.ApiResponse.success(
+                    data = sources,
+                    message = "已更新 ${sources.size} 个书源的分组"
+                )
+            )
+        } catch (e: Exception) {
+            logger.error("批量设置书源分组失败", e)
+            ResponseEntity.status(HttpStatus.INTERNAL_SERVER_ERROR).body(
+                BookController.ApiResponse.error(
+                    code = "UPDATE_GROUPS_FAILED",
+                    message = "更新失败: ${e.message}"
+                )
+            )
+        }
+    }
+    
     // ==================== 删除操作 ====================
     
     /**
@@ -418,11 +531,11 @@ class SourceController(
         logger.info("批量删除书源: ${request.sourceIds.size} 个")
         
         return try {
-            val count = sourceService.deleteSources(request.sourceIds)
+            val deleted = sourceService.deleteSources(request.sourceIds)
             ResponseEntity.ok(
                 BookController.ApiResponse.success(
-                    data = mapOf("deleted" to count),
-                    message = "成功删除 $count 个书源"
+                    data = mapOf("deleted" to deleted.size, "sourceIds" to deleted),
+                    message = "成功删除 ${deleted.size} 个书源"
                 )
             )
         } catch (e: Exception) {
@@ -548,9 +661,33 @@ class SourceController(
         
         val author: String? = null,
         
+        val group: String? = null,
+        
         val enabled: Boolean = true,
         
-        val weight: Int = 0
+        val weight: Int = 0,
+        
+        @field:Min(0, message = "安全评级为 0-5")
+        @field:Max(5, message = "安全评级为 0-5")
+        val securityRating: Int? = null
+    )
+    
+    /**
+     * 批量导入书源请求
+     */
+    data class ImportSourcesRequest(
+        val sources: List<ImportSourceItem>,
+        
+        // 覆盖 sourceId 相同的已有书源
+        val overwrite: Boolean = false
+    )
+    
+    /**
+     * 导入的单个书源及其规则
+     */
+    data class ImportSourceItem(
+        val source: BookSource,
+        val rules: BookSourceRules? = null
     )
     
     /**
@@ -560,8 +697,12 @@ class SourceController(
         val name: String? = null,
         val url: String? = null,
         val author: String? = null,
+        val group: String? = null,
         val enabled: Boolean? = null,
-        val weight: Int? = null
+        val weight: Int? = null,
+        @field:Min(0, message = "安全评级为 0-5")
+        @field:Max(5, message = "安全评级为 0-5")
+        val securityRating: Int? = null
     )
     
     /**
@@ -578,6 +719,10 @@ class SourceController(
         val weight: Int
     )
     
+    data class UpdateGroupsRequest(
+        val groups: Map<String, String>
+    )
+    
     /**
      * 删除书源请求
      */
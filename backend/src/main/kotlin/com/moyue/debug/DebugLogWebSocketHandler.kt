@@ -0,0 +1,86 @@
+package com.moyue.debug
+ 
+import com.google.gson.Gson
+import org.slf4j.LoggerFactory
+import org.springframework.stereotype.Component
+import org.springframework.web.socket.CloseStatus
+import org.springframework.web.socket.TextMessage
+import org.springframework.web.socket.WebSocketSession
+import org.springframework.web.socket.handler.ConcurrentWebSocketSessionDecorator
+import org.springframework.web.socket.handler.TextWebSocketHandler
+import org.springframework.web.util.UriComponentsBuilder
+import java.util.concurrent.ConcurrentHashMap
+ 
+/**
+ * 调试日志推送
+ *
+ * 连接地址：/ws/debug/logs?sessionId=xxx
+ *
+ * 连接后先发送已有日志 {"type":"history","logs":[...]}，
+ * 之后每产生一条日志发送 {"type":"log","log":{...}}。
+ * 调试会话不存在时以 4404 关闭连接，客户端不应重连。
+ *
+ * @author Moyue Team
+ * @since 4.0.3
+ */
+@Component
+class DebugLogWebSocketHandler(
+    private val sourceDebugger: SourceDebugger
+) : TextWebSocketHandler() {
+    
+    companion object {
+        val SESSION_NOT_FOUND: CloseStatus = CloseStatus(4404, "调试会话不存在")
+        
+        // 发送超时和缓冲上限，客户端处理不过来时断开连接
+        private const val SEND_TIME_LIMIT_MS = 5000
+        private const val BUFFER_SIZE_LIMIT = 512 * 1024
+    }
+    
+    private val logger = LoggerFactory.getLogger(DebugLogWebSocketHandler::class.java)
+    private val gson = Gson()
+    
+    // 连接 ID → 取消订阅
+    private val subscriptions = ConcurrentHashMap<String, () -> Unit>()
+    
+    override fun afterConnectionEstablished(session: WebSocketSession) {
+        val sessionId = session.uri?.let {
+            UriComponentsBuilder.fromUri(it).build().queryParams.getFirst("sessionId")
+        }
+        if (sessionId.isNullOrBlank()) {
+            session.close(SESSION_NOT_FOUND)
+            return
+        }
+        
+        // WebSocketSession 不支持并发发送
+        val sender = ConcurrentWebSocketSessionDecorator(session, SEND_TIME_LIMIT_MS, BUFFER_SIZE_LIMIT)
+        val unsubscribe = sourceDebugger.subscribeLogs(sessionId) { log ->
+            send(sender, mapOf("type" to "log", "log" to log.toMap()))
+        }
+        if (unsubscribe == null) {
+            session.close(SESSION_NOT_FOUND)
+            return
+        }
+        
+        subscriptions[session.id] = unsubscribe
+        send(sender, mapOf("type" to "history", "logs" to sourceDebugger.getLogs(sessionId)))
+        logger.debug("调试日志连接: $sessionId")
+    }
+    
+    override fun afterConnectionClosed(session: WebSocketSession, status: CloseStatus) {
+        subscriptions.remove(session.id)?.invoke()
+    }
+    
+    override fun handleTransportError(session: WebSocketSession, exception: Throwable) {
+        logger.debug("调试日志连接异常: ${exception.message}")
+        subscriptions.remove(session.id)?.invoke()
+    }
+    
+    private fun send(session: WebSocketSession, payload: Map<String, Any?>) {
+        if (!session.isOpen) return
+        try {
+            session.sendMessage(TextMessage(gson.toJson(payload)))
+        } catch (e: Exception) {
+            logger.debug("发送调试日志失败: ${e.message}")
+        }
+    }
+}
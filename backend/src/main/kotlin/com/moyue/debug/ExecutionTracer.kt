@@ -0,0 +1,231 @@
+package com.moyue.debug
+ 
+import org.mozilla.javascript.BaseFunction
+import org.mozilla.javascript.Context
+import org.mozilla.javascript.NativeJSON
+import org.mozilla.javascript.Scriptable
+import org.mozilla.javascript.ScriptableObject
+import org.mozilla.javascript.Undefined
+import org.mozilla.javascript.debug.DebugFrame
+import org.mozilla.javascript.debug.DebuggableScript
+import org.mozilla.javascript.debug.Debugger
+import kotlin.reflect.KClass
+import kotlin.reflect.KFunction
+import kotlin.reflect.KParameter
+ 
+/**
+ * 脚本执行跟踪器
+ *
+ * 通过 Rhino 调试接口记录执行过程，供调试器按顺序回放：
+ * - 执行到断点行时记录局部变量以及 result、baseUrl
+ * - 记录 java 扩展函数的调用、参数和返回值
+ * - 记录抛出的异常
+ *
+ * 执行不会真正暂停，断点只决定在哪些行记录快照。
+ *
+ * @author Moyue Team
+ * @since 4.0.3
+ */
+class ExecutionTracer(
+    private val breakpoints: Set<Int>
+) : Debugger {
+ 
+    companion object {
+        // 单次执行最多记录的事件，避免循环中的断点产生过多快照
+        private const val MAX_TRACE_EVENTS = 500
+        
+        // 变量值显示的最大长度
+        private const val MAX_VALUE_LENGTH = 2000
+        
+        // 断点处单独显示的全局变量
+        private val WATCHED_GLOBALS = listOf("result", "baseUrl")
+    }
+    
+    data class TraceEvent(
+        val index: Int,
+        val type: String,  // breakpoint, call, error
+        val line: Int,
+        // 所在函数，顶层代码为空
+        val function: String?,
+        val variables: Map<String, String> = emptyMap(),
+        val globals: Map<String, String> = emptyMap(),
+        val call: JavaCall? = null,
+        val message: String? = null
+    )
+    
+    data class JavaCall(
+        val name: String,
+        val args: List<String>,
+        val result: String?,
+        val error: String?
+    )
+    
+    private val recorded = mutableListOf<TraceEvent>()
+    private val frames = ArrayDeque<TraceFrame>()
+    private var scope: Scriptable? = null
+    private var currentLine = 0
+    
+    val events: List<TraceEvent> get() = recorded.toList()
+    
+    // 超过事件上限后不再记录
+    var truncated = false
+        private set
+    
+    /**
+     * 在执行前挂到 Context 上，并在作用域中注入带跟踪的 java 对象
+     */
+    fun attach(cx: Context, scope: Scriptable, extensions: Map<String, Any>) {
+        this.scope = scope
+        cx.optimizationLevel = -1
+        cx.isGeneratingDebug = true
+        cx.setDebugger(this, null)
+        ScriptableObject.putProperty(scope, "java", TracingJavaObject(extensions, scope))
+    }
+    
+    override fun handleCompilationDone(cx: Context, fnOrScript: DebuggableScript, source: String) {
+    }
+    
+    override fun getFrame(cx: Context, fnOrScript: DebuggableScript): DebugFrame = TraceFrame(fnOrScript)
+    
+    private fun record(build: (Int) -> TraceEvent) {
+        if (recorded.size >= MAX_TRACE_EVENTS) {
+            truncated = true
+            return
+        }
+        recorded.add(build(recorded.size))
+    }
+    
+    private fun currentFunction(): String? = frames.lastOrNull()?.functionName
+    
+    private fun describe(cx: Context, value: Any?): String {
+        val text = when (value) {
+            null -> "null"
+            is Undefined -> "undefined"
+            is CharSequence -> "\"$value\""
+            is BaseFunction -> "function ${value.functionName}()"
+            is Scriptable -> try {
+                NativeJSON.stringify(cx, scope ?: value, value, null, null)?.toString() ?: Context.toString(value)
+            } catch (e: Exception) {
+                Context.toString(value)
+            }
+            else -> Context.toString(value)
+        }
+        return if (text.length > MAX_VALUE_LENGTH) text.take(MAX_VALUE_LENGTH) + "…" else text
+    }
+    
+    private fun variablesOf(cx: Context, holder: Scriptable?, names: List<Any>? = null): Map<String, String> {
+        holder ?: return emptyMap()
+        return (names ?: holder.ids.toList())
+            .mapNotNull { it as? String }
+            .filter { name -> name != "java" && name != "console" }
+            .mapNotNull { name ->
+                val value = ScriptableObject.getProperty(holder, name)
+                // 跳过函数和未定义的全局变量
+                if (value === Scriptable.NOT_FOUND || value is BaseFunction) null else name to describe(cx, value)
+            }
+            .toMap()
+    }
+    
+    private inner class TraceFrame(private val script: DebuggableScript) : DebugFrame {
+        private var activation: Scriptable? = null
+        
+        val functionName: String?
+            get() = if (script.isFunction) script.functionName?.takeIf { it.isNotEmpty() } ?: "(匿名函数)" else null
+        
+        override fun onEnter(cx: Context, activation: Scriptable, thisObj: Scriptable?, args: Array<out Any?>?) {
+            this.activation = activation
+            frames.addLast(this)
+        }
+        
+        override fun onLineChange(cx: Context, lineNumber: Int) {
+            currentLine = lineNumber
+            if (lineNumber in breakpoints) snapshot(cx, lineNumber)
+        }
+        
+        override fun onExceptionThrown(cx: Context, ex: Throwable) {
+            // 异常向外层函数传播时只记录一次
+            val last = recorded.lastOrNull()
+            if (last?.type == "error" && last.message == ex.message) return
+            record { index ->
+                TraceEvent(index, "error", currentLine, currentFunction(), message = ex.message)
+            }
+        }
+        
+        override fun onExit(cx: Context, byThrow: Boolean, resultOrException: Any?) {
+            frames.removeLastOrNull()
+        }
+        
+        // 脚本中的 debugger 语句也视为断点
+        override fun onDebuggerStatement(cx: Context) {
+            snapshot(cx, currentLine)
+        }
+        
+        private fun snapshot(cx: Context, line: Int) {
+            // 顶层代码的 activation 就是全局作用域，result 和 baseUrl 单独显示
+            val locals = variablesOf(cx, activation).filterKeys { script.isFunction || it !in WATCHED_GLOBALS }
+            record { index ->
+                TraceEvent(
+                    index = index,
+                    type = "breakpoint",
+                    line = line,
+                    function = functionName,
+                    variables = locals,
+                    globals = variablesOf(cx, scope, WATCHED_GLOBALS)
+                )
+            }
+        }
+    }
+    
+    /**
+     * 脚本中的 java 对象，调用扩展函数时记录参数和返回值
+     */
+    private inner class TracingJavaObject(
+        private val extensions: Map<String, Any>,
+        scope: Scriptable
+    ) : ScriptableObject(scope, null) {
+    
+        override fun getClassName() = "JavaExtensions"
+        
+        override fun has(name: String, start: Scriptable) = name in extensions || super.has(name, start)
+        
+        override fun get(name: String, start: Scriptable): Any? {
+            val function = extensions[name] as? KFunction<*> ?: return super.get(name, start)
+            return object : BaseFunction() {
+                override fun getFunctionName() = name
+                
+                override fun call(cx: Context, scope: Scriptable, thisObj: Scriptable?, args: Array<out Any?>): Any? {
+                    val argTexts = args.map { describe(cx, it) }
+                    return try {
+                        val result = invoke(function, args)
+                        record { index ->
+                            TraceEvent(index, "call", currentLine, currentFunction(), call = JavaCall(name, argTexts, describe(cx, result), null))
+                        }
+                        Context.javaToJS(result, scope)
+                    } catch (e: Exception) {
+                        val cause = (e as? java.lang.reflect.InvocationTargetException)?.targetException ?: e
+                        record { index ->
+                            TraceEvent(index, "call", currentLine, currentFunction(), call = JavaCall(name, argTexts, null, cause.message))
+                        }
+                        throw Context.reportRuntimeError("java.$name 调用失败: ${cause.message}")
+                    }
+                }
+            }
+        }
+        
+        // 按参数类型转换 JS 值，省略的可选参数使用默认值
+        private fun invoke(function: KFunction<*>, args: Array<out Any?>): Any? {
+            val parameters = function.parameters.filter { it.kind == KParameter.Kind.VALUE }
+            val values = mutableMapOf<KParameter, Any?>()
+            parameters.forEachIndexed { index, parameter ->
+                if (index < args.size && args[index] !is Undefined) {
+                    val type = (parameter.type.classifier as? KClass<*>)?.javaObjectType ?: Any::class.java
+                    values[parameter] = Context.jsToJava(args[index], type)
+                } else if (!parameter.isOptional) {
+                    throw IllegalArgumentException("缺少参数 ${parameter.name}")
+                }
+            }
+            return function.callBy(values)
+        }
+    }
+}
+ 
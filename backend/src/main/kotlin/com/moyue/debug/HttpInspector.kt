@@ -0,0 +1,293 @@
+package com.moyue.debug
+ 
+import com.moyue.security.SecurityEventLog
+import com.moyue.security.SecurityLevel
+import com.moyue.security.SecurityPolicy
+import okhttp3.Headers
+import okhttp3.HttpUrl
+import okhttp3.MediaType
+import okhttp3.MediaType.Companion.toMediaTypeOrNull
+import okhttp3.OkHttpClient
+import okhttp3.Request
+import okhttp3.RequestBody.Companion.toRequestBody
+import org.springframework.beans.factory.annotation.Value
+import org.springframework.stereotype.Component
+import java.nio.charset.Charset
+import java.util.Base64
+import java.util.UUID
+import java.util.concurrent.TimeUnit
+ 
+/**
+ * HTTP 请求检查器
+ *
+ * 调试时代替 RhinoEngine.fetchHtml 发起请求，记录完整的请求和响应：
+ * 方法、地址、状态、耗时、请求头和响应头、重定向，以及原始响应内容和识别出的编码。
+ *
+ * @author Moyue Team
+ * @since 4.0.3
+ */
+@Component
+class HttpInspector(
+    private val okHttpClient: OkHttpClient,
+    private val securityEventLog: SecurityEventLog,
+    @Value("\${moyue.security.default-level:standard}")
+    private val defaultSecurityLevel: String
+) {
+ 
+    companion object {
+        // 记录的响应内容上限，超出部分截断
+        private const val MAX_BODY_BYTES = 2L * 1024 * 1024
+        
+        // 在前面这些字节中查找 <meta charset>
+        private const val META_SNIFF_BYTES = 4096
+        
+        // 手动跟随重定向的次数上限，与 OkHttp 默认一致
+        private const val MAX_REDIRECTS = 20
+        
+        // 调试请求的超时时间范围（秒）
+        private const val MAX_TIMEOUT_SECONDS = 120L
+        
+        private val META_CHARSET = Regex("""<meta[^>]+charset\s*=\s*["']?([\w-]+)""", RegexOption.IGNORE_CASE)
+    }
+    
+    // 未指定书源时使用的安全策略
+    val defaultPolicy = SecurityPolicy.forLevel(SecurityLevel.fromName(defaultSecurityLevel))
+    
+    /**
+     * 要发起的请求
+     */
+    data class ExchangeRequest(
+        val method: String = "GET",
+        val url: String,
+        val headers: Map<String, String> = emptyMap(),
+        val body: String? = null
+    )
+    
+    data class Header(
+        val name: String,
+        val value: String
+    )
+    
+    data class Redirect(
+        val status: Int,
+        val url: String,
+        val location: String?
+    )
+    
+    /**
+     * 一次请求的记录
+     *
+     * @property origin 发起方，例如 stage:search、test-url
+     * @property charsetSource 编码的来源：rule（书源规则）、header、bom、meta、default
+     * @property bodyBase64 原始响应内容，前端可按其他编码重新解码
+     */
+    data class Exchange(
+        val id: String = UUID.randomUUID().toString(),
+        val origin: String,
+        val method: String,
+        val url: String,
+        val finalUrl: String?,
+        val status: Int?,
+        val statusText: String?,
+        val protocol: String?,
+        val requestHeaders: List<Header>,
+        val requestBody: String?,
+        val responseHeaders: List<Header>,
+        val redirects: List<Redirect>,
+        val startedAt: Long,
+        val duration: Long,
+        // 发出请求到收到响应头的时间
+        val waiting: Long?,
+        val size: Long,
+        val charset: String?,
+        val charsetSource: String?,
+        val bodyBase64: String?,
+        val bodyTruncated: Boolean,
+        val error: String?
+    ) {
+        val success: Boolean get() = error == null && status != null && status in 200..399
+    }
+    
+    /**
+     * 发起请求并记录
+     *
+     * 请求失败不会抛出异常，错误记录在结果的 error 中。
+     * 重定向由这里逐个跟随，每一跳的地址都要经过安全策略检查。
+     *
+     * @param policy 书源对应的安全策略，拒绝访问的地址不会发出请求
+     * @param timeoutSeconds 每一跳的超时时间，限制在 1 到 120 秒之间
+     * @param forcedCharset 书源规则中指定的编码，优先于自动识别
+     * @return 记录和按识别出的编码解码后的内容
+     */
+    fun execute(
+        request: ExchangeRequest,
+        origin: String,
+        policy: SecurityPolicy = defaultPolicy,
+        forcedCharset: String? = null,
+        timeoutSeconds: Long? = null
+    ): Pair<Exchange, String?> {
+        val startedAt = System.currentTimeMillis()
+        val requestHeaders = request.headers.map { (name, value) -> Header(name, value) }
+        
+        fun failed(message: String, redirects: List<Redirect> = emptyList()) = Exchange(
+            origin = origin,
+            method = request.method,
+            url = request.url,
+            finalUrl = null,
+            status = null,
+            statusText = null,
+            protocol = null,
+            requestHeaders = requestHeaders,
+            requestBody = request.body,
+            responseHeaders = emptyList(),
+            redirects = redirects,
+            startedAt = startedAt,
+            duration = System.currentTimeMillis() - startedAt,
+            waiting = null,
+            size = 0,
+            charset = null,
+            charsetSource = null,
+            bodyBase64 = null,
+            bodyTruncated = false,
+            error = message
+        ) to null
+        
+        if (!allows(policy, request.method, request.url)) {
+            return failed("网络访问被拒绝: ${request.url}")
+        }
+        
+        var httpRequest = try {
+            buildRequest(request)
+        } catch (e: IllegalArgumentException) {
+            return failed(e.message ?: "请求参数错误")
+        }
+        
+        val client = okHttpClient.newBuilder()
+            .followRedirects(false)
+            .followSslRedirects(false)
+            .apply { timeoutSeconds?.let { callTimeout(it.coerceIn(1, MAX_TIMEOUT_SECONDS), TimeUnit.SECONDS) } }
+            .build()
+        val redirects = mutableListOf<Redirect>()
+        return try {
+            var response = client.newCall(httpRequest).execute()
+            while (response.isRedirect) {
+                val location = response.header("Location")
+                val next = location?.let { response.request.url.resolve(it) } ?: break
+                redirects.add(Redirect(response.code, response.request.url.toString(), location))
+                response.close()
+                
+                if (redirects.size > MAX_REDIRECTS) return failed("重定向次数过多", redirects)
+                if (!allows(policy, httpRequest.method, next.toString())) {
+                    return failed("网络访问被拒绝: $next", redirects)
+                }
+                httpRequest = redirectRequest(httpRequest, response.code, next)
+                response = client.newCall(httpRequest).execute()
+            }
+            
+            response.use {
+                val body = response.body
+                val source = body?.source()
+                source?.request(MAX_BODY_BYTES + 1)
+                val buffered = source?.buffer?.size ?: 0
+                val bytes = source?.buffer?.clone()?.readByteArray(minOf(buffered, MAX_BODY_BYTES)) ?: ByteArray(0)
+                val (charset, charsetSource) = detectCharset(bytes, body?.contentType(), forcedCharset)
+                
+                val exchange = Exchange(
+                    origin = origin,
+                    method = request.method,
+                    url = request.url,
+                    finalUrl = response.request.url.toString(),
+                    status = response.code,
+                    statusText = response.message,
+                    protocol = response.protocol.toString(),
+                    // 经过拦截器后实际发出的请求头
+                    requestHeaders = (response.networkResponse ?: response).request.headers.toHeaderList(),
+                    requestBody = request.body,
+                    responseHeaders = response.headers.toHeaderList(),
+                    redirects = redirects,
+                    startedAt = startedAt,
+                    duration = System.currentTimeMillis() - startedAt,
+                    waiting = response.receivedResponseAtMillis - response.sentRequestAtMillis,
+                    size = if (buffered > MAX_BODY_BYTES) body?.contentLength()?.takeIf { it > 0 } ?: buffered else buffered,
+                    charset = charset,
+                    charsetSource = charsetSource,
+                    bodyBase64 = Base64.getEncoder().encodeToString(bytes),
+                    bodyTruncated = buffered > MAX_BODY_BYTES,
+                    error = null
+                )
+                exchange to String(bytes, charsetOf(charset))
+            }
+        } catch (e: Exception) {
+            failed(e.message ?: e.javaClass.simpleName, redirects)
+        }
+    }
+    
+    private fun buildRequest(request: ExchangeRequest): Request {
+        val method = request.method.uppercase()
+        val headers = Headers.Builder().apply {
+            request.headers.forEach { (name, value) -> add(name, value) }
+        }.build()
+        val body = when {
+            method == "GET" || method == "HEAD" -> null
+            else -> (request.body ?: "").toRequestBody(headers["Content-Type"]?.toMediaTypeOrNull())
+        }
+        return Request.Builder()
+            .url(request.url)
+            .headers(headers)
+            .method(method, body)
+            .build()
+    }
+    
+    // 检查地址是否允许访问，拒绝时记录安全事件
+    private fun allows(policy: SecurityPolicy, method: String, url: String): Boolean {
+        if (policy.allows("network", url)) return true
+        securityEventLog.record(
+            type = SecurityEventLog.TYPE_NETWORK,
+            message = "调试请求被拒绝: $method $url",
+            level = policy.securityLevel,
+            allowed = false,
+            action = "network",
+            resource = url
+        )
+        return false
+    }
+    
+    // 与 OkHttp 的处理一致：307、308 保留方法和请求体，其他重定向改为 GET；跨域名时去掉认证头
+    private fun redirectRequest(request: Request, code: Int, url: HttpUrl): Request {
+        val builder = request.newBuilder().url(url)
+        if (code != 307 && code != 308 && request.method != "GET" && request.method != "HEAD") {
+            builder.method("GET", null)
+                .removeHeader("Content-Type")
+                .removeHeader("Content-Length")
+                .removeHeader("Transfer-Encoding")
+        }
+        if (request.url.host != url.host) {
+            builder.removeHeader("Authorization")
+        }
+        return builder.build()
+    }
+    
+    private fun detectCharset(bytes: ByteArray, contentType: MediaType?, forced: String?): Pair<String, String> {
+        forced?.trim()?.takeIf { it.isNotEmpty() && Charset.isSupported(it) }?.let { return it to "rule" }
+        contentType?.charset()?.let { return it.name() to "header" }
+        
+        if (bytes.size >= 3 && bytes[0] == 0xEF.toByte() && bytes[1] == 0xBB.toByte() && bytes[2] == 0xBF.toByte()) {
+            return "UTF-8" to "bom"
+        }
+        if (bytes.size >= 2 && bytes[0] == 0xFE.toByte() && bytes[1] == 0xFF.toByte()) return "UTF-16BE" to "bom"
+        if (bytes.size >= 2 && bytes[0] == 0xFF.toByte() && bytes[1] == 0xFE.toByte()) return "UTF-16LE" to "bom"
+        
+        val head = String(bytes, 0, minOf(bytes.size, META_SNIFF_BYTES), Charsets.ISO_8859_1)
+        META_CHARSET.find(head)?.groupValues?.get(1)?.takeIf { Charset.isSupported(it) }?.let { return it to "meta" }
+        
+        return "UTF-8" to "default"
+    }
+    
+    private fun charsetOf(name: String): Charset = try {
+        Charset.forName(name)
+    } catch (e: Exception) {
+        Charsets.UTF_8
+    }
+    
+    private fun Headers.toHeaderList(): List<Header> = map { (name, value) -> Header(name, value) }
+}
@@ -1,9 +1,13 @@
 package com.moyue.debug
 
+import com.moyue.engine.RhinoEngine
 import com.moyue.model.BookSource
+import com.moyue.model.BookSourceRules
 import com.moyue.repository.BookSourceRepository
-import com.moyue.source.engine.RhinoEngine
+import com.moyue.repository.BookSourceRulesRepository
+import com.moyue.security.SecurityLevel
 import com.moyue.security.SecurityPolicy
+import com.moyue.source.JsExtensions
 import org.mozilla.javascript.Context
 import org.mozilla.javascript.Scriptable
 import org.mozilla.javascript.ScriptableObject
@@ -24,7 +28,10 @@ import java.util.concurrent.atomic.AtomicLong
 @Service
 class SourceDebugger(
     private val bookSourceRepository: BookSourceRepository,
-    private val rhinoEngine: RhinoEngine
+    private val bookSourceRulesRepository: BookSourceRulesRepository,
+    private val rhinoEngine: RhinoEngine,
+    private val jsExtensions: JsExtensions,
+    private val httpInspector: HttpInspector
 ) {
     
     private val logger = LoggerFactory.getLogger(SourceDebugger::class.java)
@@ -41,7 +48,19 @@ class SourceDebugger(
     companion object {
         private const val MAX_LOG_SIZE = 1000
         private const val MAX_SESSION_SIZE = 100
+        private const val MAX_REQUEST_SIZE = 100
         private const val CLEANUP_INTERVAL_MINUTES = 10L
+        
+        // 调试结果中保留的响应长度，避免过大的页面占满内存
+        private const val MAX_RESPONSE_LENGTH = 200_000
+        
+        // 搜索 → 详情 → 目录 → 正文，各步骤使用的规则字段
+        val STAGE_RULE_FIELDS = linkedMapOf(
+            "search" to listOf("searchUrl", "searchList", "searchName", "searchAuthor", "searchCoverUrl", "searchBookUrl"),
+            "bookInfo" to listOf("bookUrl", "bookInfo"),
+            "toc" to listOf("chapterList", "chapterName", "chapterUrl"),
+            "content" to listOf("contentUrl", "content")
+        )
     }
     
     init {
@@ -58,15 +77,33 @@ class SourceDebugger(
         val logs: CopyOnWriteArrayList<DebugLog> = CopyOnWriteArrayList(),
         var context: Map<String, Any> = mapOf(),
         var variables: MutableMap<String, Any> = mutableMapOf(),
-        val metadata: MutableMap<String, Any> = mutableMapOf()
+        val metadata: MutableMap<String, Any> = mutableMapOf(),
+        // 会话中的规则副本，调试时修改不影响已保存的书源
+        var rules: BookSourceRules? = null,
+        // 各步骤最近一次的结果
+        val stages: ConcurrentHashMap<String, DebugStage> = ConcurrentHashMap(),
+        // 实时推送日志的订阅者
+        val logListeners: CopyOnWriteArrayList<(DebugLog) -> Unit> = CopyOnWriteArrayList(),
+        // 调试过程中发出的 HTTP 请求
+        val requests: CopyOnWriteArrayList<HttpInspector.Exchange> = CopyOnWriteArrayList()
     ) {
         fun addLog(level: String, message: String, data: Any? = null) {
-            logs.add(DebugLog(LocalDateTime.now(), level, message, data))
+            val log = DebugLog(LocalDateTime.now(), level, message, data)
+            logs.add(log)
             
             // 限制日志大小
             while (logs.size > MAX_LOG_SIZE) {
                 logs.removeAt(0)
             }
+            
+            logListeners.forEach { listener -> listener(log) }
+        }
+        
+        fun addRequest(exchange: HttpInspector.Exchange) {
+            requests.add(exchange)
+            while (requests.size > MAX_REQUEST_SIZE) {
+                requests.removeAt(0)
+            }
         }
         
         fun setVariable(name: String, value: Any) {
@@ -85,14 +122,45 @@ class SourceDebugger(
         val level: String,
         val message: String,
         val data: Any?
-    )
+    ) {
+        fun toMap(): Map<String, Any?> = mapOf(
+            "timestamp" to timestamp.toString(),
+            "level" to level,
+            "message" to message,
+            "data" to data
+        )
+    }
     
     data class ExecuteResult(
         val result: Any?,
         val logs: List<DebugLog>,
         val error: String?,
         val executionTime: Long,
-        val success: Boolean
+        val success: Boolean,
+        // 断点快照和 java 调用记录，按发生顺序排列
+        val trace: List<ExecutionTracer.TraceEvent> = emptyList(),
+        val traceTruncated: Boolean = false
+    )
+    
+    /**
+     * 调试步骤的结果
+     *
+     * @property input 步骤的输入：搜索关键字、书籍地址或章节地址
+     * @property rules 本次使用的规则字段
+     * @property contentType 响应类型（html / json），用于选择预览方式
+     */
+    data class DebugStage(
+        val stage: String,
+        val input: String,
+        val success: Boolean,
+        val requestUrl: String?,
+        val responseBody: String?,
+        val contentType: String?,
+        val rules: Map<String, String?>,
+        val extracted: Any?,
+        val error: String?,
+        val duration: Long,
+        val timestamp: LocalDateTime = LocalDateTime.now()
     )
     
     data class RuleTestResult(
@@ -133,13 +201,14 @@ class SourceDebugger(
             sourceId = sourceId
         )
         
-        // 加载书源信息
+        // 加载书源信息和规则副本
         sourceId?.let { id ->
-            val source = bookSourceRepository.findById(id).orElse(null)
+            val source = bookSourceRepository.findBySourceId(id)
             if (source != null) {
                 session.metadata["sourceName"] = source.name
-                session.metadata["sourceUrl"] = source.url
-                session.metadata["securityRating"] = source.securityRating
+                source.url?.let { session.metadata["sourceUrl"] = it }
+                source.securityRating?.let { session.metadata["securityRating"] = it }
+                session.rules = bookSourceRulesRepository.findByRuleId(id)?.copy()
             }
         }
         
@@ -194,12 +263,17 @@ class SourceDebugger(
     
     /**
      * 执行书源代码
+     *
+     * @param breakpoints 需要记录变量快照的行号
+     * @param context 注入的全局变量，例如 result 和 baseUrl
      */
     fun executeCode(
         sessionId: String,
         code: String,
         function: String,
-        args: List<Any>
+        args: List<Any>,
+        breakpoints: Set<Int> = emptySet(),
+        context: Map<String, Any> = emptyMap()
     ): ExecuteResult {
         val session = getSession(sessionId)
         if (session == null) {
@@ -209,12 +283,11 @@ class SourceDebugger(
         val startTime = System.currentTimeMillis()
         executionCounter.incrementAndGet()
         session.addLog("info", "开始执行代码: $function", mapOf("args" to args))
+        val tracer = ExecutionTracer(breakpoints)
         
         try {
             // 获取书源和安全策略
-            val source = session.sourceId?.let { 
-                bookSourceRepository.findById(it).orElse(null)
-            }
+            val source = session.sourceId?.let { bookSourceRepository.findBySourceId(it) }
             
             val policy = determineSecurityPolicy(source)
             session.metadata["securityLevel"] = policy.level.name
@@ -224,7 +297,7 @@ class SourceDebugger(
                 session.addLog(level, message, data)
             }
             
-            val result = executeWithLogging(code, function, args, policy, logCollector, session)
+            val result = executeWithLogging(code, function, args, policy, logCollector, session, tracer, context)
             
             val executionTime = System.currentTimeMillis() - startTime
             session.addLog("info", "执行完成", mapOf("executionTime" to executionTime))
@@ -234,7 +307,9 @@ class SourceDebugger(
                 logs = session.logs.toList(),
                 error = null,
                 executionTime = executionTime,
-                success = true
+                success = true,
+                trace = tracer.events,
+                traceTruncated = tracer.truncated
             )
         } catch (e: Exception) {
             val executionTime = System.currentTimeMillis() - startTime
@@ -246,7 +321,9 @@ class SourceDebugger(
                 logs = session.logs.toList(),
                 error = e.message,
                 executionTime = executionTime,
-                success = false
+                success = false,
+                trace = tracer.events,
+                traceTruncated = tracer.truncated
             )
         }
     }
@@ -263,9 +340,7 @@ class SourceDebugger(
         val startTime = System.currentTimeMillis()
         
         try {
-            val source = session.sourceId?.let { 
-                bookSourceRepository.findById(it).orElse(null)
-            }
+            val source = session.sourceId?.let { bookSourceRepository.findBySourceId(it) }
             val policy = determineSecurityPolicy(source)
             
             val logCollector = { level: String, message: String, data: Any? ->
@@ -297,6 +372,153 @@ class SourceDebugger(
         }
     }
     
+    // ==================== 分步调试 ====================
+    
+    /**
+     * 更新会话中的规则副本
+     *
+     * 只修改传入的字段，值为 null 或空白表示清除该规则
+     */
+    fun updateRules(sessionId: String, fields: Map<String, String?>) {
+        val session = getSession(sessionId) ?: throw IllegalArgumentException("会话不存在: $sessionId")
+        val sourceId = session.sourceId ?: throw IllegalStateException("会话没有关联书源")
+        
+        var rules = session.rules ?: BookSourceRules(ruleId = sourceId)
+        fields.forEach { (field, value) -> rules = rules.withRule(field, value?.takeIf { it.isNotBlank() }) }
+        session.rules = rules
+        session.addLog("info", "修改规则: ${fields.keys.joinToString(", ")}")
+    }
+    
+    /**
+     * 获取会话中各步骤使用的规则
+     */
+    fun getStageRules(sessionId: String): Map<String, Map<String, String?>> {
+        val rules = getSession(sessionId)?.rules ?: return emptyMap()
+        return STAGE_RULE_FIELDS.mapValues { (_, fields) -> ruleFieldsOf(rules, fields) }
+    }
+    
+    /**
+     * 运行一个调试步骤
+     *
+     * 使用会话中的规则副本，请求页面后按规则提取，结果保存在会话中，
+     * 修改规则后可以单独重新运行某个步骤。
+     *
+     * @param input 搜索关键字（search）、书籍地址（bookInfo、toc）或章节地址（content）
+     * @param bookUrl 运行 content 时所属书籍的地址
+     */
+    fun runStage(sessionId: String, stage: String, input: String, bookUrl: String? = null): DebugStage {
+        val session = getSession(sessionId) ?: throw IllegalArgumentException("会话不存在: $sessionId")
+        val fields = STAGE_RULE_FIELDS[stage] ?: throw IllegalArgumentException("未知调试步骤: $stage")
+        val source = session.sourceId?.let { bookSourceRepository.findBySourceId(it) }
+            ?: throw IllegalStateException("会话没有关联书源")
+        val rules = session.rules ?: throw IllegalStateException("书源没有规则")
+        val policy = determineSecurityPolicy(source)
+        
+        val startTime = System.currentTimeMillis()
+        executionCounter.incrementAndGet()
+        session.addLog("info", "开始调试: $stage", mapOf("input" to input))
+        
+        var requestUrl: String? = null
+        var body: String? = null
+        // 通过 HttpInspector 请求，记录到会话的网络面板中
+        fun fetch(url: String): String {
+            requestUrl = url
+            val (exchange, text) = httpInspector.execute(
+                HttpInspector.ExchangeRequest(url = url),
+                origin = "stage:$stage",
+                policy = policy,
+                forcedCharset = rules.charset
+            )
+            recordRequest(session, exchange)
+            exchange.error?.let { throw RuntimeException(it) }
+            body = text
+            if (exchange.status?.let { it in 200..299 } != true) throw RuntimeException("HTTP 请求失败: ${exchange.status}")
+            return text ?: ""
+        }
+        
+        val result = try {
+            val extracted: Any = when (stage) {
+                "search" -> {
+                    val url = rhinoEngine.buildUrl(rules.searchUrl, mapOf("key" to input))
+                    rhinoEngine.parseSearchResult(source, rules, fetch(url), url, input)
+                }
+                "bookInfo" -> rhinoEngine.parseBookInfo(rules, fetch(input), input)
+                "toc" -> rhinoEngine.parseChapterList(rules, fetch(input), input)
+                else -> rhinoEngine.parseContent(rules, fetch(input), input, bookUrl ?: "")
+            }
+            session.addLog("info", "调试完成: $stage", mapOf("duration" to System.currentTimeMillis() - startTime))
+            stageResult(stage, input, requestUrl, body, rules, fields, extracted, null, startTime)
+        } catch (e: Exception) {
+            logger.warn("调试步骤失败: $sessionId, stage=$stage, ${e.message}")
+            session.addLog("error", "调试失败: $stage, ${e.message}")
+            stageResult(stage, input, requestUrl, body, rules, fields, null, e.message ?: "未知错误", startTime)
+        }
+        
+        session.stages[stage] = result
+        return result
+    }
+    
+    private fun stageResult(
+        stage: String,
+        input: String,
+        requestUrl: String?,
+        body: String?,
+        rules: BookSourceRules,
+        fields: List<String>,
+        extracted: Any?,
+        error: String?,
+        startTime: Long
+    ) = DebugStage(
+        stage = stage,
+        input = input,
+        success = error == null,
+        requestUrl = requestUrl,
+        responseBody = body?.take(MAX_RESPONSE_LENGTH),
+        contentType = body?.let { if (it.trimStart().startsWith("{") || it.trimStart().startsWith("[")) "json" else "html" },
+        rules = ruleFieldsOf(rules, fields),
+        extracted = extracted,
+        error = error,
+        duration = System.currentTimeMillis() - startTime
+    )
+    
+    private fun ruleFieldsOf(rules: BookSourceRules, fields: List<String>): Map<String, String?> {
+        return fields.associateWith { rules.ruleValue(it) }
+    }
+    
+    private fun BookSourceRules.ruleValue(field: String): String? = when (field) {
+        "searchUrl" -> searchUrl
+        "searchList" -> searchList
+        "searchName" -> searchName
+        "searchAuthor" -> searchAuthor
+        "searchCoverUrl" -> searchCoverUrl
+        "searchBookUrl" -> searchBookUrl
+        "bookUrl" -> bookUrl
+        "bookInfo" -> bookInfo
+        "chapterList" -> chapterList
+        "chapterName" -> chapterName
+        "chapterUrl" -> chapterUrl
+        "contentUrl" -> contentUrl
+        "content" -> content
+        else -> throw IllegalArgumentException("未知规则字段: $field")
+    }
+    
+    private fun BookSourceRules.withRule(field: String, value: String?): BookSourceRules = when (field) {
+        "searchUrl" -> copy(searchUrl = value)
+        "searchList" -> copy(searchList = value)
+        "searchName" -> copy(searchName = value)
+        "searchAuthor" -> copy(searchAuthor = value)
+        "searchCoverUrl" -> copy(searchCoverUrl = value)
+        "searchBookUrl" -> copy(searchBookUrl = value)
+        "bookUrl" -> copy(bookUrl = value)
+        "bookInfo" -> copy(bookInfo = value)
+        "chapterList" -> copy(chapterList = value)
+        "chapterName" -> copy(chapterName = value)
+        "chapterUrl" -> copy(chapterUrl = value)
+        "contentUrl" -> copy(contentUrl = value)
+        "content" -> copy(content = value)
+        else -> throw IllegalArgumentException("未知规则字段: $field")
+    }
+    
     // ==================== 规则测试 ====================
     
     /**
@@ -361,21 +583,50 @@ class SourceDebugger(
         }
     }
     
+    // ==================== 网络请求 ====================
+    
+    /**
+     * 记录一次请求，并写入会话日志
+     */
+    fun recordRequest(session: DebugSession, exchange: HttpInspector.Exchange) {
+        session.addRequest(exchange)
+        val summary = "${exchange.method} ${exchange.url} → ${exchange.status ?: exchange.error} (${exchange.duration}ms)"
+        session.addLog(if (exchange.success) "debug" else "warn", "HTTP 请求: $summary", mapOf("requestId" to exchange.id))
+    }
+    
+    /**
+     * 获取会话中的请求记录，按发出顺序排列
+     */
+    fun getRequests(sessionId: String): List<HttpInspector.Exchange> {
+        return getSession(sessionId)?.requests?.toList() ?: emptyList()
+    }
+    
+    /**
+     * 清空请求记录
+     */
+    fun clearRequests(sessionId: String) {
+        getSession(sessionId)?.requests?.clear()
+    }
+    
     // ==================== 日志管理 ====================
     
     /**
      * 获取日志
      */
-    fun getLogs(sessionId: String): List<Map<String, Any>> {
+    fun getLogs(sessionId: String): List<Map<String, Any?>> {
         val session = getSession(sessionId) ?: return emptyList()
-        return session.logs.map { log ->
-            mapOf(
-                "timestamp" to log.timestamp.toString(),
-                "level" to log.level,
-                "message" to log.message,
-                "data" to log.data
-            )
-        }
+        return session.logs.map { it.toMap() }
+    }
+    
+    /**
+     * 订阅会话的新日志
+     *
+     * @return 取消订阅的函数，会话不存在时返回 null
+     */
+    fun subscribeLogs(sessionId: String, listener: (DebugLog) -> Unit): (() -> Unit)? {
+        val session = getSession(sessionId) ?: return null
+        session.logListeners.add(listener)
+        return { session.logListeners.remove(listener) }
     }
     
     /**
@@ -391,16 +642,9 @@ class SourceDebugger(
     /**
      * 按级别过滤日志
      */
-    fun getLogsByLevel(sessionId: String, level: String): List<Map<String, Any>> {
+    fun getLogsByLevel(sessionId: String, level: String): List<Map<String, Any?>> {
         val session = getSession(sessionId) ?: return emptyList()
-        return session.logs.filter { it.level == level }.map { log ->
-            mapOf(
-                "timestamp" to log.timestamp.toString(),
-                "level" to log.level,
-                "message" to log.message,
-                "data" to log.data
-            )
-        }
+        return session.logs.filter { it.level == level }.map { it.toMap() }
     }
     
     // ==================== 变量管理 ====================
@@ -473,7 +717,9 @@ class SourceDebugger(
         args: List<Any>,
         policy: SecurityPolicy,
         logCollector: (String, String, Any?) -> Unit,
-        session: DebugSession
+        session: DebugSession,
+        tracer: ExecutionTracer,
+        context: Map<String, Any>
     ): Any? {
         val cx = Context.enter()
         try {
@@ -481,6 +727,7 @@ class SourceDebugger(
             cx.languageVersion = Context.VERSION_ES5
             
             val scope = cx.initStandardObjects()
+            tracer.attach(cx, scope, jsExtensions.getExtensions())
             
             // 注入 console 对象
             val consoleObj = Context.javaToJS(object {
@@ -492,8 +739,8 @@ class SourceDebugger(
             }, scope)
             ScriptableObject.putProperty(scope, "console", consoleObj)
             
-            // 注入 session 变量
-            session.variables.forEach { (name, value) ->
+            // 注入 session 变量和本次执行的上下文
+            (session.variables + context).forEach { (name, value) ->
                 val jsValue = Context.javaToJS(value, scope)
                 ScriptableObject.putProperty(scope, name, jsValue)
             }
@@ -605,11 +852,19 @@ class SourceDebugger(
         }
     }
     
+    /**
+     * 会话所属书源的安全策略，会话中发出的请求都应使用该策略
+     */
+    fun securityPolicyOf(session: DebugSession): SecurityPolicy {
+        val source = session.sourceId?.let { bookSourceRepository.findBySourceId(it) }
+        return determineSecurityPolicy(source)
+    }
+    
     private fun determineSecurityPolicy(source: BookSource?): SecurityPolicy {
         return when (source?.securityRating) {
-            1, 2 -> SecurityPolicy.trusted()
-            3, 4 -> SecurityPolicy.compatible()
-            else -> SecurityPolicy.standard()
+            1, 2 -> SecurityPolicy.forLevel(SecurityLevel.TRUSTED)
+            3, 4 -> SecurityPolicy.forLevel(SecurityLevel.COMPATIBLE)
+            else -> SecurityPolicy.forLevel(SecurityLevel.STANDARD)
         }
     }
     
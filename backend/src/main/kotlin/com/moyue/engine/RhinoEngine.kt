@@ -121,38 +121,59 @@ class RhinoEngine(
         keyword: String
     ): List<Map<String, Any>> {
         return try {
-            logger.debug("执行搜索规则: ${source.name}, keyword=$keyword")
-            
-            // 构建搜索 URL
-            val searchUrl = buildUrl(rules.searchUrl, mapOf("key" to keyword))
-            
-            // 获取搜索结果页面
-            val html = fetchHtml(searchUrl, source)
-            
-            // 执行搜索规则
-            val result = executeCode(rules.searchList ?: "", mapOf(
-                "baseUrl" to searchUrl,
-                "html" to html,
-                "keyword" to keyword
-            )) as? List<Map<String, Any>> ?: emptyList()
-            
-            // 处理每个搜索结果
-            result.map { item ->
-                mapOf(
-                    "name" to (item["name"]?.toString() ?: ""),
-                    "author" to (item["author"]?.toString() ?: ""),
-                    "coverUrl" to (item["coverUrl"]?.toString() ?: ""),
-                    "bookUrl" to (item["bookUrl"]?.toString() ?: ""),
-                    "sourceId" to source.sourceId,
-                    "sourceName" to source.name
-                )
-            }
+            fetchSearchResult(source, rules, keyword)
         } catch (e: Exception) {
             logger.error("执行搜索规则失败: ${source.name}", e)
             emptyList()
         }
     }
     
+    /**
+     * 执行搜索规则，请求或解析失败时抛出异常
+     */
+    fun fetchSearchResult(
+        source: BookSource,
+        rules: BookSourceRules,
+        keyword: String
+    ): List<Map<String, Any>> {
+        logger.debug("执行搜索规则: ${source.name}, keyword=$keyword")
+        
+        // 构建搜索 URL
+        val searchUrl = buildUrl(rules.searchUrl, mapOf("key" to keyword))
+        
+        // 获取搜索结果页面并解析
+        return parseSearchResult(source, rules, fetchHtml(searchUrl, source), searchUrl, keyword)
+    }
+    
+    /**
+     * 解析搜索结果页面，解析失败时抛出异常
+     */
+    fun parseSearchResult(
+        source: BookSource,
+        rules: BookSourceRules,
+        html: String,
+        baseUrl: String,
+        keyword: String
+    ): List<Map<String, Any>> {
+        val result = executeCode(rules.searchList ?: "", mapOf(
+            "baseUrl" to baseUrl,
+            "html" to html,
+            "keyword" to keyword
+        )) as? List<Map<String, Any>> ?: emptyList()
+        
+        // 处理每个搜索结果
+        return result.map { item ->
+            mapOf(
+                "name" to (item["name"]?.toString() ?: ""),
+                "author" to (item["author"]?.toString() ?: ""),
+                "coverUrl" to (item["coverUrl"]?.toString() ?: ""),
+                "bookUrl" to (item["bookUrl"]?.toString() ?: ""),
+                "sourceId" to source.sourceId,
+                "sourceName" to source.name
+            )
+        }
+    }
+    
     /**
      * 执行书籍信息规则
      */
@@ -163,29 +184,35 @@ class RhinoEngine(
     ): Map<String, Any> {
         return try {
             logger.debug("执行书籍信息规则: ${source.name}, bookUrl=$bookUrl")
-            
-            // 获取书籍页面
-            val html = fetchHtml(bookUrl, source)
-            
-            // 执行书籍信息规则
-            val result = executeCode(rules.bookInfo ?: "", mapOf(
-                "baseUrl" to bookUrl,
-                "html" to html
-            )) as? Map<String, Any> ?: emptyMap()
-            
-            mapOf(
-                "name" to (result["name"]?.toString() ?: ""),
-                "author" to (result["author"]?.toString() ?: ""),
-                "coverUrl" to (result["coverUrl"]?.toString() ?: ""),
-                "intro" to (result["intro"]?.toString() ?: ""),
-                "chapterCount" to (result["chapterCount"] as? Int ?: 0)
-            )
+            parseBookInfo(rules, fetchHtml(bookUrl, source), bookUrl)
         } catch (e: Exception) {
             logger.error("执行书籍信息规则失败: ${source.name}", e)
             emptyMap()
         }
     }
     
+    /**
+     * 解析书籍详情页面，解析失败时抛出异常
+     */
+    fun parseBookInfo(
+        rules: BookSourceRules,
+        html: String,
+        bookUrl: String
+    ): Map<String, Any> {
+        val result = executeCode(rules.bookInfo ?: "", mapOf(
+            "baseUrl" to bookUrl,
+            "html" to html
+        )) as? Map<String, Any> ?: emptyMap()
+        
+        return mapOf(
+            "name" to (result["name"]?.toString() ?: ""),
+            "author" to (result["author"]?.toString() ?: ""),
+            "coverUrl" to (result["coverUrl"]?.toString() ?: ""),
+            "intro" to (result["intro"]?.toString() ?: ""),
+            "chapterCount" to (result["chapterCount"] as? Int ?: 0)
+        )
+    }
+    
     /**
      * 执行章节列表规则
      */
@@ -196,32 +223,38 @@ class RhinoEngine(
     ): List<BookChapter> {
         return try {
             logger.debug("执行章节列表规则: ${source.name}, bookUrl=$bookUrl")
-            
-            // 获取书籍页面
-            val html = fetchHtml(bookUrl, source)
-            
-            // 执行章节列表规则
-            val result = executeCode(rules.chapterList ?: "", mapOf(
-                "baseUrl" to bookUrl,
-                "html" to html
-            )) as? List<Map<String, Any>> ?: emptyList()
-            
-            // 处理每个章节
-            result.mapIndexed { index, item ->
-                BookChapter(
-                    bookId = "",  // 后续设置
-                    index = index,
-                    title = (item["name"]?.toString() ?: "未知章节"),
-                    url = (item["url"]?.toString() ?: ""),
-                    isVip = (item["isVip"] as? Boolean) ?: false
-                )
-            }
+            parseChapterList(rules, fetchHtml(bookUrl, source), bookUrl)
         } catch (e: Exception) {
             logger.error("执行章节列表规则失败: ${source.name}", e)
             emptyList()
         }
     }
     
+    /**
+     * 解析目录页面，解析失败时抛出异常
+     */
+    fun parseChapterList(
+        rules: BookSourceRules,
+        html: String,
+        bookUrl: String
+    ): List<BookChapter> {
+        val result = executeCode(rules.chapterList ?: "", mapOf(
+            "baseUrl" to bookUrl,
+            "html" to html
+        )) as? List<Map<String, Any>> ?: emptyList()
+        
+        // 处理每个章节
+        return result.mapIndexed { index, item ->
+            BookChapter(
+                bookId = "",  // 后续设置
+                index = index,
+                title = (item["name"]?.toString() ?: "未知章节"),
+                url = (item["url"]?.toString() ?: ""),
+                isVip = (item["isVip"] as? Boolean) ?: false
+            )
+        }
+    }
+    
     /**
      * 执行内容规则
      */
@@ -233,28 +266,35 @@ class RhinoEngine(
     ): String {
         return try {
             logger.debug("执行内容规则: ${source.name}, chapterUrl=$chapterUrl")
-            
-            // 获取章节页面
-            val html = fetchHtml(chapterUrl, source)
-            
-            // 执行内容规则
-            val result = executeCode(rules.content ?: "", mapOf(
-                "baseUrl" to chapterUrl,
-                "bookUrl" to bookUrl,
-                "html" to html
-            ))
-            
-            (result?.toString() ?: "").trim()
+            parseContent(rules, fetchHtml(chapterUrl, source), chapterUrl, bookUrl)
         } catch (e: Exception) {
             logger.error("执行内容规则失败: ${source.name}", e)
             ""
         }
     }
     
+    /**
+     * 解析正文页面，解析失败时抛出异常
+     */
+    fun parseContent(
+        rules: BookSourceRules,
+        html: String,
+        chapterUrl: String,
+        bookUrl: String
+    ): String {
+        val result = executeCode(rules.content ?: "", mapOf(
+            "baseUrl" to chapterUrl,
+            "bookUrl" to bookUrl,
+            "html" to html
+        ))
+        
+        return (result?.toString() ?: "").trim()
+    }
+    
     /**
      * 获取 HTML 页面
      */
-    private fun fetchHtml(url: String, source: BookSource): String {
+    fun fetchHtml(url: String, source: BookSource): String {
         // 检查安全策略
         if (!securityPolicy.allows("network", url)) {
             throw SecurityException("网络访问被拒绝: $url")
@@ -277,7 +317,7 @@ class RhinoEngine(
     /**
      * 构建 URL
      */
-    private fun buildUrl(template: String?, params: Map<String, Any>): String {
+    fun buildUrl(template: String?, params: Map<String, Any>): String {
         if (template == null) {
             throw IllegalArgumentException("URL 模板为空")
         }
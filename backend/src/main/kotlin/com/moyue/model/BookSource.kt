@@ -20,14 +20,18 @@ import java.time.LocalDateTime
  * @property icon 书源图标
  * @property url 书源主页 URL
  * @property author 书源作者
+ * @property group 书源分组（Legado 的 bookSourceGroup，多个分组用逗号分隔）
  * @property enabled 是否启用
  * @property weight 权重（搜索时排序）
+ * @property securityRating 安全评级（1-5，未评级为空），调试时据此选择脚本安全策略
  * @property bookSourceRuleId 关联的规则 ID
  * @property rules 书源规则
  * @property lastUsedAt 最后使用时间
  * @property lastCheckedAt 最后检查时间
  * @property checkStatus 检查状态
  * @property checkMessage 检查消息
+ * @property checkStage 检查失败的阶段（search / bookInfo / toc / content / site），成功时为空
+ * @property checkDuration 检查耗时（毫秒）
  * @property createdAt 创建时间
  * @property updatedAt 更新时间
  */
@@ -68,12 +72,20 @@ data class BookSource(
     @Nullable
     var author: String? = null,
     
+    @Column(name = "source_group", length = 200)
+    @Nullable
+    var group: String? = null,
+    
     @Column(nullable = false)
     var enabled: Boolean = true,
     
     @Column(nullable = false)
     var weight: Int = 0,
     
+    @Column(name = "security_rating")
+    @Nullable
+    var securityRating: Int? = null,
+    
     @Column(name = "book_source_rule_id", length = 100, nullable = true)
     @Nullable
     var bookSourceRuleId: String? = null,
@@ -102,6 +114,14 @@ data class BookSource(
     @Nullable
     var checkMessage: String? = null,
     
+    @Column(name = "check_stage", length = 20)
+    @Nullable
+    var checkStage: String? = null,
+    
+    @Column(name = "check_duration")
+    @Nullable
+    var checkDuration: Long? = null,
+    
     @Column(name = "created_at", updatable = false, nullable = false)
     @JsonFormat(pattern = "yyyy-MM-dd HH:mm:ss", timezone = "GMT+8")
     var createdAt: LocalDateTime = LocalDateTime.now(),
@@ -141,9 +161,11 @@ data class BookSource(
     /**
      * 更新检查状态
      */
-    fun updateCheckStatus(status: String, message: String? = null) {
+    fun updateCheckStatus(status: String, message: String? = null, stage: String? = null, duration: Long? = null) {
         checkStatus = status
         checkMessage = message
+        checkStage = stage
+        checkDuration = duration
         lastCheckedAt = LocalDateTime.now()
         updatedAt = LocalDateTime.now()
     }
@@ -0,0 +1,86 @@
+package com.moyue.model
+ 
+import jakarta.persistence.*
+import org.jspecify.annotations.Nullable
+import tools.jackson.annotation.JsonFormat
+import java.time.LocalDateTime
+ 
+/**
+ * 书源测试用例实体
+ *
+ * 保存某个调试步骤的页面快照和期望的提取结果，
+ * 修改规则后用快照重新提取并与期望结果比较，不需要访问网络。
+ *
+ * @property id 唯一标识（UUID）
+ * @property sourceId 所属书源 ID
+ * @property name 用例名称
+ * @property stage 调试步骤：search、bookInfo、toc、content
+ * @property url 页面地址，作为提取时的 baseUrl
+ * @property input 搜索关键字（search）或所属书籍地址（content）
+ * @property body 页面快照
+ * @property contentType 快照类型（html / json）
+ * @property expected 期望的提取结果（JSON）
+ * @property createdAt 创建时间
+ * @property updatedAt 更新时间
+ */
+@Entity
+@Table(
+    name = "source_fixtures",
+    indexes = [
+        Index(name = "idx_fixture_source_id", columnList = "source_id")
+    ]
+)
+data class SourceFixture(
+    @Id
+    @GeneratedValue(strategy = GenerationType.UUID)
+    val id: String? = null,
+    
+    @Column(name = "source_id", nullable = false, length = 100)
+    var sourceId: String = "",
+    
+    @Column(nullable = false, length = 200)
+    var name: String = "",
+    
+    @Column(nullable = false, length = 20)
+    var stage: String = "",
+    
+    @Column(nullable = false, length = 2000)
+    var url: String = "",
+    
+    @Column(length = 2000)
+    @Nullable
+    var input: String? = null,
+    
+    @Column(columnDefinition = "TEXT", nullable = false)
+    var body: String = "",
+    
+    @Column(name = "content_type", length = 20)
+    @Nullable
+    var contentType: String? = null,
+    
+    @Column(columnDefinition = "TEXT", nullable = false)
+    var expected: String = "",
+    
+    @Column(name = "created_at", updatable = false, nullable = false)
+    @JsonFormat(pattern = "yyyy-MM-dd HH:mm:ss", timezone = "GMT+8")
+    var createdAt: LocalDateTime = LocalDateTime.now(),
+    
+    @Column(name = "updated_at", nullable = false)
+    @JsonFormat(pattern = "yyyy-MM-dd HH:mm:ss", timezone = "GMT+8")
+    var updatedAt: LocalDateTime = LocalDateTime.now()
+) {
+ 
+    // ==================== JPA 生命周期回调 ====================
+    
+    @PrePersist
+    fun onCreate() {
+        val now = LocalDateTime.now()
+        createdAt = now
+        updatedAt = now
+    }
+    
+    @PreUpdate
+    fun onUpdate() {
+        updatedAt = LocalDateTime.now()
+    }
+}
@@ -0,0 +1,24 @@
+package com.moyue.repository
+ 
+import com.moyue.model.BookSourceRules
+import org.springframework.data.jpa.repository.JpaRepository
+import org.springframework.stereotype.Repository
+import org.jspecify.annotations.Nullable
+ 
+/**
+ * 书源规则仓储接口
+ *
+ * Spring Boot 4.0.3 + Kotlin 2.3.10
+ * Spring Data JPA
+ *
+ * @author Moyue Team
+ * @since 4.0.3
+ */
+@Repository
+interface BookSourceRulesRepository : JpaRepository<BookSourceRules, String> {
+    
+    /**
+     * 根据规则 ID（即书源 ID）查询
+     */
+    fun findByRuleId(ruleId: String): @Nullable BookSourceRules?
+}
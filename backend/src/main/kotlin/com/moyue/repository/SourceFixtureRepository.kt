@@ -0,0 +1,32 @@
+package com.moyue.repository
+ 
+import com.moyue.model.SourceFixture
+import org.springframework.data.jpa.repository.JpaRepository
+import org.springframework.data.jpa.repository.Query
+import org.springframework.stereotype.Repository
+ 
+/**
+ * 书源测试用例仓储接口
+ *
+ * @author Moyue Team
+ * @since 4.0.3
+ */
+@Repository
+interface SourceFixtureRepository : JpaRepository<SourceFixture, String> {
+ 
+    /**
+     * 查询书源的全部用例（按创建时间排序）
+     */
+    fun findBySourceIdOrderByCreatedAtAsc(sourceId: String): List<SourceFixture>
+    
+    /**
+     * 查询有用例的书源 ID
+     */
+    @Query("SELECT DISTINCT f.sourceId FROM SourceFixture f ORDER BY f.sourceId")
+    fun findDistinctSourceIds(): List<String>
+    
+    /**
+     * 删除书源的全部用例
+     */
+    fun deleteBySourceId(sourceId: String): Long
+}
@@ -0,0 +1,114 @@
+package com.moyue.security
+ 
+import org.springframework.data.domain.Page
+import org.springframework.data.domain.PageImpl
+import org.springframework.data.domain.PageRequest
+import org.springframework.stereotype.Component
+import tools.jackson.annotation.JsonFormat
+import java.time.LocalDateTime
+import java.util.concurrent.atomic.AtomicLong
+ 
+/**
+ * 安全事件日志
+ *
+ * 记录安全等级变更、权限检查和书源检查的结果，
+ * 只保存在内存中，超出上限时丢弃最早的事件，重启后清空。
+ *
+ * @author Moyue Team
+ * @since 4.0.3
+ */
+@Component
+class SecurityEventLog {
+ 
+    companion object {
+        private const val MAX_EVENT_SIZE = 1000
+        
+        // 事件类型
+        const val TYPE_LEVEL = "level"
+        const val TYPE_PERMISSION = "permission"
+        const val TYPE_NETWORK = "network"
+        const val TYPE_SOURCE = "source"
+    }
+    
+    private val events = ArrayDeque<SecurityEvent>()
+    private val idCounter = AtomicLong()
+    
+    /**
+     * 安全事件
+     *
+     * @property type 事件类型：level、permission、network、source
+     * @property allowed 操作是否被允许
+     * @property level 发生时的安全等级
+     */
+    data class SecurityEvent(
+        val id: Long,
+        val type: String,
+        val action: String?,
+        val resource: String?,
+        val allowed: Boolean,
+        val level: String,
+        val sourceId: String?,
+        val message: String,
+        @JsonFormat(pattern = "yyyy-MM-dd HH:mm:ss", timezone = "GMT+8")
+        val timestamp: LocalDateTime
+    )
+    
+    fun record(
+        type: String,
+        message: String,
+        level: SecurityLevel,
+        allowed: Boolean = true,
+        action: String? = null,
+        resource: String? = null,
+        sourceId: String? = null
+    ): SecurityEvent {
+        val event = SecurityEvent(
+            id = idCounter.incrementAndGet(),
+            type = type,
+            action = action,
+            resource = resource,
+            allowed = allowed,
+            level = level.name.lowercase(),
+            sourceId = sourceId,
+            message = message,
+            timestamp = LocalDateTime.now()
+        )
+        synchronized(events) {
+            events.addLast(event)
+            while (events.size > MAX_EVENT_SIZE) {
+                events.removeFirst()
+            }
+        }
+        return event
+    }
+    
+    /**
+     * 分页查询事件（最新的在前）
+     *
+     * @param allowed 只看允许或拒绝的事件，为空时不限
+     * @param keyword 匹配事件说明、资源和书源 ID
+     */
+    fun query(
+        type: String? = null,
+        allowed: Boolean? = null,
+        keyword: String? = null,
+        page: Int = 0,
+        size: Int = 20
+    ): Page<SecurityEvent> {
+        val snapshot = synchronized(events) { events.toList() }
+        val matched = snapshot.asReversed().filter { event ->
+            (type.isNullOrBlank() || event.type == type) &&
+                (allowed == null || event.allowed == allowed) &&
+                (keyword.isNullOrBlank() || listOfNotNull(event.message, event.resource, event.sourceId)
+                    .any { it.contains(keyword, ignoreCase = true) })
+        }
+        
+        val pageable = PageRequest.of(page.coerceAtLeast(0), size.coerceIn(1, 100))
+        val content = matched.drop(pageable.offset.toInt()).take(pageable.pageSize)
+        return PageImpl(content, pageable, matched.size.toLong())
+    }
+    
+    fun clear() {
+        synchronized(events) { events.clear() }
+    }
+}
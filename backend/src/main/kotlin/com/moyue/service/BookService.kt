@@ -199,6 +199,28 @@ class BookService(
         return bookRepository.save(book)
     }
     
+    /**
+     * 换源：更新书籍的书源与书籍 URL，并定位到新书源中的对应章节
+     */
+    @CacheEvict(value = ["books", "book", "book-search", "recent-books", "reading-books"], allEntries = true)
+    fun changeSource(id: String, sourceId: String, bookUrl: String, chapterIndex: Int, chapterCount: Int?): Book {
+        logger.info("书籍换源: $id -> $sourceId")
+        
+        val book = getBookById(id)
+        val source = sourceService.getSourceById(sourceId)
+        
+        book.origin = source.sourceId
+        book.source = source
+        book.bookUrl = bookUrl
+        if (chapterCount != null) {
+            book.chapterCount = chapterCount
+        }
+        book.currentChapter = chapterIndex.coerceAtLeast(0)
+        book.updatedAt = LocalDateTime.now()
+        
+        return bookRepository.save(book)
+    }
+    
     // ==================== 删除操作 ====================
     
     /**
@@ -0,0 +1,276 @@
+package com.moyue.service
+ 
+import com.google.gson.GsonBuilder
+import com.google.gson.JsonElement
+import com.google.gson.JsonNull
+import com.google.gson.JsonParser
+import com.moyue.debug.SourceDebugger
+import com.moyue.engine.RhinoEngine
+import com.moyue.model.BookChapter
+import com.moyue.model.BookSource
+import com.moyue.model.BookSourceRules
+import com.moyue.model.SourceFixture
+import com.moyue.repository.BookSourceRepository
+import com.moyue.repository.BookSourceRulesRepository
+import com.moyue.repository.SourceFixtureRepository
+import org.slf4j.LoggerFactory
+import org.springframework.stereotype.Service
+import org.springframework.transaction.annotation.Transactional
+ 
+/**
+ * 书源测试用例服务
+ *
+ * 功能：
+ * - 保存调试步骤的页面快照作为测试用例
+ * - 用快照重新提取，与期望结果比较（不访问网络）
+ * - 运行单个书源或全部书源的用例
+ *
+ * 比较规则：期望结果中的对象只比较其中列出的字段，数组要求长度和每一项都一致，
+ * 因此可以删掉期望结果里不关心的字段。
+ *
+ * @author Moyue Team
+ * @since 4.0.3
+ */
+@Service
+@Transactional
+class FixtureService(
+    private val sourceFixtureRepository: SourceFixtureRepository,
+    private val bookSourceRepository: BookSourceRepository,
+    private val bookSourceRulesRepository: BookSourceRulesRepository,
+    private val rhinoEngine: RhinoEngine
+) {
+ 
+    private val logger = LoggerFactory.getLogger(FixtureService::class.java)
+    
+    private val gson = GsonBuilder().serializeNulls().setPrettyPrinting().create()
+    
+    companion object {
+        // 单个用例最多报告的差异数
+        private const val MAX_DIFFERENCES = 20
+        
+        // 差异中显示的值的最大长度
+        private const val MAX_VALUE_LENGTH = 200
+    }
+    
+    // ==================== 数据类 ====================
+    
+    data class FixtureDifference(
+        // 差异所在位置，例如 $[0].name
+        val path: String,
+        val expected: String,
+        val actual: String
+    )
+    
+    data class FixtureResult(
+        val fixtureId: String,
+        val name: String,
+        val stage: String,
+        val passed: Boolean,
+        val actual: String?,
+        val differences: List<FixtureDifference>,
+        val error: String?,
+        val duration: Long
+    )
+    
+    data class FixtureReport(
+        val sourceId: String,
+        val sourceName: String?,
+        val total: Int,
+        val passed: Int,
+        val failed: Int,
+        val results: List<FixtureResult>
+    )
+    
+    // ==================== 用例管理 ====================
+    
+    @Transactional(readOnly = true)
+    fun getFixtures(sourceId: String): List<SourceFixture> {
+        return sourceFixtureRepository.findBySourceIdOrderByCreatedAtAsc(sourceId)
+    }
+    
+    @Transactional(readOnly = true)
+    fun getFixture(id: String): SourceFixture {
+        return sourceFixtureRepository.findById(id).orElse(null)
+            ?: throw IllegalArgumentException("测试用例不存在: $id")
+    }
+    
+    /**
+     * 保存测试用例
+     *
+     * 未给出期望结果时，用书源当前的规则提取一次作为期望结果
+     *
+     * @param rules 提取期望结果使用的规则，为空时使用已保存的规则
+     */
+    fun createFixture(fixture: SourceFixture, rules: BookSourceRules? = null): SourceFixture {
+        validateStage(fixture.stage)
+        val source = bookSourceRepository.findBySourceId(fixture.sourceId)
+            ?: throw IllegalArgumentException("书源不存在: ${fixture.sourceId}")
+        
+        if (fixture.expected.isBlank()) {
+            val activeRules = rules ?: bookSourceRulesRepository.findByRuleId(fixture.sourceId)
+                ?: throw IllegalStateException("书源没有规则")
+            val extracted = try {
+                extract(fixture, source, activeRules)
+            } catch (e: Exception) {
+                throw IllegalStateException("用当前规则提取失败: ${e.message}")
+            }
+            fixture.expected = gson.toJson(extracted)
+        } else {
+            fixture.expected = normalizeExpected(fixture.expected)
+        }
+        
+        logger.info("保存测试用例: ${fixture.sourceId}, ${fixture.name}")
+        return sourceFixtureRepository.save(fixture)
+    }
+    
+    /**
+     * 修改用例名称和期望结果
+     */
+    fun updateFixture(id: String, name: String?, expected: String?): SourceFixture {
+        val fixture = getFixture(id)
+        name?.takeIf { it.isNotBlank() }?.let { fixture.name = it }
+        expected?.let { fixture.expected = normalizeExpected(it) }
+        return sourceFixtureRepository.save(fixture)
+    }
+    
+    fun deleteFixture(id: String): Boolean {
+        if (!sourceFixtureRepository.existsById(id)) return false
+        sourceFixtureRepository.deleteById(id)
+        return true
+    }
+    
+    // ==================== 运行用例 ====================
+    
+    /**
+     * 运行书源的用例
+     *
+     * @param rules 使用的规则，为空时使用已保存的规则；调试会话中修改过的规则可以在保存前先跑一遍
+     * @param fixtureIds 只运行其中的用例，为空时运行全部
+     */
+    @Transactional(readOnly = true)
+    fun runSource(sourceId: String, rules: BookSourceRules? = null, fixtureIds: Set<String>? = null): FixtureReport {
+        val source = bookSourceRepository.findBySourceId(sourceId)
+        val fixtures = getFixtures(sourceId).filter { fixtureIds == null || it.id in fixtureIds }
+        val activeRules = rules ?: bookSourceRulesRepository.findByRuleId(sourceId)
+        
+        val results = fixtures.map { fixture ->
+            when {
+                source == null -> failedResult(fixture, "书源不存在")
+                activeRules == null -> failedResult(fixture, "书源没有规则")
+                else -> runFixture(fixture, source, activeRules)
+            }
+        }
+        return FixtureReport(
+            sourceId = sourceId,
+            sourceName = source?.name,
+            total = results.size,
+            passed = results.count { it.passed },
+            failed = results.count { !it.passed },
+            results = results
+        )
+    }
+    
+    /**
+     * 运行全部书源的用例，只包含有用例的书源，跳过已删除书源遗留的用例
+     */
+    @Transactional(readOnly = true)
+    fun runAll(): List<FixtureReport> {
+        val sourceIds = sourceFixtureRepository.findDistinctSourceIds()
+            .filter { bookSourceRepository.findBySourceId(it) != null }
+        logger.info("运行全部测试用例: ${sourceIds.size} 个书源")
+        return sourceIds.map { runSource(it) }
+    }
+    
+    private fun runFixture(fixture: SourceFixture, source: BookSource, rules: BookSourceRules): FixtureResult {
+        val startTime = System.currentTimeMillis()
+        return try {
+            val actual = gson.toJsonTree(extract(fixture, source, rules))
+            val differences = mutableListOf<FixtureDifference>()
+            compare("$", JsonParser.parseString(fixture.expected), actual, differences)
+            FixtureResult(
+                fixtureId = fixture.id ?: "",
+                name = fixture.name,
+                stage = fixture.stage,
+                passed = differences.isEmpty(),
+                actual = gson.toJson(actual),
+                differences = differences,
+                error = null,
+                duration = System.currentTimeMillis() - startTime
+            )
+        } catch (e: Exception) {
+            logger.debug("测试用例运行失败: ${fixture.name}, ${e.message}")
+            failedResult(fixture, e.message ?: "提取失败", startTime)
+        }
+    }
+    
+    private fun failedResult(fixture: SourceFixture, error: String, startTime: Long = System.currentTimeMillis()) = FixtureResult(
+        fixtureId = fixture.id ?: "",
+        name = fixture.name,
+        stage = fixture.stage,
+        passed = false,
+        actual = null,
+        differences = emptyList(),
+        error = error,
+        duration = System.currentTimeMillis() - startTime
+    )
+    
+    /**
+     * 按步骤提取快照，章节只保留标题、地址和 VIP 标记
+     */
+    private fun extract(fixture: SourceFixture, source: BookSource, rules: BookSourceRules): Any {
+        return when (fixture.stage) {
+            "search" -> rhinoEngine.parseSearchResult(source, rules, fixture.body, fixture.url, fixture.input ?: "")
+            "bookInfo" -> rhinoEngine.parseBookInfo(rules, fixture.body, fixture.url)
+            "toc" -> rhinoEngine.parseChapterList(rules, fixture.body, fixture.url).map { it.toFixtureValue() }
+            else -> rhinoEngine.parseContent(rules, fixture.body, fixture.url, fixture.input ?: "")
+        }
+    }
+    
+    private fun BookChapter.toFixtureValue() = mapOf(
+        "title" to title,
+        "url" to url,
+        "isVip" to isVip
+    )
+    
+    private fun compare(path: String, expected: JsonElement, actual: JsonElement?, differences: MutableList<FixtureDifference>) {
+        if (differences.size >= MAX_DIFFERENCES) return
+        val actualValue = actual ?: JsonNull.INSTANCE
+        
+        when {
+            expected.isJsonObject && actualValue.isJsonObject -> {
+                val actualObject = actualValue.asJsonObject
+                expected.asJsonObject.entrySet().forEach { (key, value) ->
+                    compare("$path.$key", value, actualObject.get(key), differences)
+                }
+            }
+            expected.isJsonArray && actualValue.isJsonArray -> {
+                val expectedArray = expected.asJsonArray
+                val actualArray = actualValue.asJsonArray
+                if (expectedArray.size() != actualArray.size()) {
+                    differences.add(FixtureDifference("$path.length", expectedArray.size().toString(), actualArray.size().toString()))
+                }
+                for (index in 0 until minOf(expectedArray.size(), actualArray.size())) {
+                    compare("$path[$index]", expectedArray[index], actualArray[index], differences)
+                }
+            }
+            expected != actualValue -> differences.add(FixtureDifference(path, describe(expected), describe(actualValue)))
+        }
+    }
+    
+    private fun describe(value: JsonElement): String {
+        val text = value.toString()
+        return if (text.length > MAX_VALUE_LENGTH) text.take(MAX_VALUE_LENGTH) + "…" else text
+    }
+    
+    private fun normalizeExpected(expected: String): String {
+        return try {
+            gson.toJson(JsonParser.parseString(expected))
+        } catch (e: Exception) {
+            throw IllegalArgumentException("期望结果不是有效的 JSON: ${e.message}")
+        }
+    }
+    
+    private fun validateStage(stage: String) {
+        require(stage in SourceDebugger.STAGE_RULE_FIELDS.keys) { "未知调试步骤: $stage" }
+    }
+}
@@ -1,10 +1,16 @@
 package com.moyue.service
  
+import com.moyue.model.BookSourceRules
+import com.moyue.repository.BookSourceRepository
+import com.moyue.repository.BookSourceRulesRepository
+import com.moyue.security.SecurityEventLog
 import com.moyue.security.SecurityLevel
 import com.moyue.security.SecurityPolicy
 import org.slf4j.LoggerFactory
 import org.springframework.beans.factory.annotation.Value
+import org.springframework.cache.annotation.CacheEvict
 import org.springframework.cache.annotation.Cacheable
+import org.springframework.data.domain.Page
 import org.springframework.security.crypto.bcrypt.BCryptPasswordEncoder
 import org.springframework.security.crypto.password.PasswordEncoder
 import org.springframework.stereotype.Service
@@ -25,6 +31,7 @@ import java.time.temporal.ChronoUnit
  * - JWT Token 生成和验证
  * - 密码加密
  * - 安全策略管理
+ * - 书源代码检查
  * - 会话管理
  *
  * @author Moyue Team
@@ -33,13 +40,48 @@ import java.time.temporal.ChronoUnit
 @Service
 @Transactional
 class SecurityService(
-    private val preferenceService: PreferenceService
+    private val preferenceService: PreferenceService,
+    private val securityEventLog: SecurityEventLog,
+    private val bookSourceRepository: BookSourceRepository,
+    private val bookSourceRulesRepository: BookSourceRulesRepository
 ) {
     
     private val logger = LoggerFactory.getLogger(SecurityService::class.java)
     private val passwordEncoder: PasswordEncoder = BCryptPasswordEncoder()
     private val secureRandom = SecureRandom()
     
+    companion object {
+        // 书源代码中可能触发权限检查的写法
+        private val URL_ORIGIN = Regex("""https?://[^/\s"'<>?#{}]+""")
+        private val JAVA_CLASS = Regex("""(?:Packages\.)?\b((?:java|javax|sun)\.[\w.]+\w)""")
+        private val REFLECTION = Regex("""\.getClass\(\)|\.getDeclared\w+\(|Class\.forName\(|java\.lang\.reflect\b""")
+        private val SYSTEM = Regex("""\b(?:Runtime|ProcessBuilder)\b""")
+        private val FILE_SYSTEM = Regex("""\bjava\.io\.File\b|\bjava\.nio\.file\b""")
+        private val NATIVE = Regex("""System\.load(?:Library)?\(""")
+    }
+    
+    /**
+     * 书源代码中的一项检查
+     *
+     * @property field 所在的规则字段，书源地址为 url
+     * @property snippet 触发检查的代码片段
+     */
+    data class SourceCheckItem(
+        val field: String,
+        val action: String,
+        val resource: String?,
+        val snippet: String,
+        val allowed: Boolean
+    )
+    
+    data class SourceCheckResult(
+        val sourceId: String,
+        val sourceName: String,
+        val level: String,
+        val allowed: Boolean,
+        val items: List<SourceCheckItem>
+    )
+    
     @Value("\${moyue.security.jwt.secret:}")
     private lateinit var jwtSecret: String
     
@@ -192,9 +234,16 @@ class SecurityService(
     /**
      * 设置安全等级
      */
+    @CacheEvict(value = ["security-policy"], allEntries = true)
     fun setSecurityLevel(level: SecurityLevel) {
         logger.info("设置安全等级: $level")
+        val previous = getSecurityLevel()
         preferenceService.setSecurityLevel(level)
+        securityEventLog.record(
+            type = SecurityEventLog.TYPE_LEVEL,
+            message = "安全等级由 ${previous.name.lowercase()} 改为 ${level.name.lowercase()}",
+            level = level
+        )
     }
     
     /**
@@ -211,7 +260,64 @@ class SecurityService(
      */
     fun checkPermission(action: String, resource: String? = null): Boolean {
         val policy = getSecurityPolicy()
-        return policy.allows(action, resource)
+        val allowed = policy.allows(action, resource)
+        securityEventLog.record(
+            type = SecurityEventLog.TYPE_PERMISSION,
+            message = "${if (allowed) "允许" else "拒绝"} $action${resource?.let { ": $it" } ?: ""}",
+            level = policy.securityLevel,
+            allowed = allowed,
+            action = action,
+            resource = resource
+        )
+        return allowed
+    }
+    
+    /**
+     * 按当前安全等级检查书源
+     *
+     * 在书源地址和规则代码中查找网络地址、Java 类、反射、文件和系统命令的用法，
+     * 逐项用安全策略检查，结果记录到安全事件日志
+     */
+    fun checkSource(sourceId: String): SourceCheckResult {
+        val source = bookSourceRepository.findBySourceId(sourceId)
+            ?: throw IllegalArgumentException("书源不存在: $sourceId")
+        val rules = bookSourceRulesRepository.findByRuleId(sourceId)
+        val policy = getSecurityPolicy()
+        
+        val fields = listOf("url" to source.url) + (rules?.let { ruleFields(it) } ?: emptyList())
+        val items = fields
+            .flatMap { (field, code) -> if (code.isNullOrBlank()) emptyList() else scanCode(field, code) }
+            .distinctBy { Triple(it.field, it.action, it.resource) }
+            .map { (field, action, resource, snippet) ->
+                SourceCheckItem(field, action, resource, snippet, policy.allows(action, resource))
+            }
+        
+        val denied = items.count { !it.allowed }
+        securityEventLog.record(
+            type = SecurityEventLog.TYPE_SOURCE,
+            message = "检查书源 ${source.name}: ${items.size} 项, 拒绝 $denied 项",
+            level = policy.securityLevel,
+            allowed = denied == 0,
+            sourceId = sourceId
+        )
+        return SourceCheckResult(
+            sourceId = sourceId,
+            sourceName = source.name,
+            level = policy.securityLevel.name.lowercase(),
+            allowed = denied == 0,
+            items = items
+        )
+    }
+    
+    /**
+     * 分页查询安全事件
+     */
+    fun getEvents(type: String?, allowed: Boolean?, keyword: String?, page: Int, size: Int): Page<SecurityEventLog.SecurityEvent> {
+        return securityEventLog.query(type, allowed, keyword, page, size)
+    }
+    
+    fun clearEvents() {
+        securityEventLog.clear()
     }
     
     // ==================== 会话管理 ====================
@@ -306,6 +412,40 @@ class SecurityService(
     
     // ==================== 私有辅助方法 ====================
     
+    private data class CodeMatch(val field: String, val action: String, val resource: String?, val snippet: String)
+    
+    private fun ruleFields(rules: BookSourceRules): List<Pair<String, String?>> = listOf(
+        "searchUrl" to rules.searchUrl,
+        "searchList" to rules.searchList,
+        "searchName" to rules.searchName,
+        "searchAuthor" to rules.searchAuthor,
+        "searchCoverUrl" to rules.searchCoverUrl,
+        "searchBookUrl" to rules.searchBookUrl,
+        "bookUrl" to rules.bookUrl,
+        "bookInfo" to rules.bookInfo,
+        "chapterList" to rules.chapterList,
+        "chapterName" to rules.chapterName,
+        "chapterUrl" to rules.chapterUrl,
+        "contentUrl" to rules.contentUrl,
+        "content" to rules.content,
+        "headers" to rules.headers
+    )
+    
+    /**
+     * 在一段规则代码中查找需要权限的用法，网络地址只取到域名，模板变量不影响检查
+     */
+    private fun scanCode(field: String, code: String): List<CodeMatch> {
+        val matches = mutableListOf<CodeMatch>()
+        URL_ORIGIN.findAll(code).forEach { matches.add(CodeMatch(field, "network", it.value, it.value)) }
+        JAVA_CLASS.findAll(code).forEach { matches.add(CodeMatch(field, "class", it.groupValues[1], it.value)) }
+        REFLECTION.findAll(code).forEach { matches.add(CodeMatch(field, "reflection", null, it.value)) }
+        SYSTEM.findAll(code).forEach { matches.add(CodeMatch(field, "system", null, it.value)) }
+        NATIVE.findAll(code).forEach { matches.add(CodeMatch(field, "native", null, it.value)) }
+        // 路径通常是运行时拼出来的，按禁止的根路径检查，只有不限制路径的等级才会放行
+        FILE_SYSTEM.findAll(code).forEach { matches.add(CodeMatch(field, "filesystem", "/", it.value)) }
+        return matches
+    }
+    
     /**
      * 获取 JWT 密钥
      */
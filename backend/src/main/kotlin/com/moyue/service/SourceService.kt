@@ -5,6 +5,8 @@ import com.moyue.model.BookChapter
 import com.moyue.model.BookSource
 import com.moyue.model.BookSourceRules
 import com.moyue.repository.BookSourceRepository
+import com.moyue.repository.BookSourceRulesRepository
+import com.moyue.repository.SourceFixtureRepository
 import org.slf4j.LoggerFactory
 import org.springframework.beans.factory.annotation.Value
 import org.springframework.cache.annotation.CacheEvict
@@ -14,7 +16,11 @@ import org.springframework.data.domain.PageRequest
 import org.springframework.data.domain.Pageable
 import org.springframework.data.domain.Sort
 import org.springframework.stereotype.Service
+import org.springframework.transaction.PlatformTransactionManager
+import org.springframework.transaction.TransactionDefinition
+import org.springframework.transaction.annotation.Propagation
 import org.springframework.transaction.annotation.Transactional
+import org.springframework.transaction.support.TransactionTemplate
 import org.springframework.web.multipart.MultipartFile
 import org.jspecify.annotations.Nullable
 import java.io.BufferedReader
@@ -41,12 +47,20 @@ import java.time.LocalDateTime
 @Transactional
 class SourceService(
     private val bookSourceRepository: BookSourceRepository,
+    private val bookSourceRulesRepository: BookSourceRulesRepository,
+    private val sourceFixtureRepository: SourceFixtureRepository,
+    transactionManager: PlatformTransactionManager,
     @Lazy
     private val rhinoEngine: RhinoEngine
 ) {
     
     private val logger = LoggerFactory.getLogger(SourceService::class.java)
     
+    // 逐个书源提交的独立事务，单个书源失败时只回滚它自己
+    private val requiresNew = TransactionTemplate(transactionManager).apply {
+        propagationBehavior = TransactionDefinition.PROPAGATION_REQUIRES_NEW
+    }
+    
     @Value("\${moyue.book-source.max-concurrent-search:5}")
     private var maxConcurrentSearch: Int = 5
     
@@ -56,6 +70,9 @@ class SourceService(
     @Value("\${moyue.book-source.search-timeout:30}")
     private var searchTimeout: Int = 30
     
+    @Value("\${moyue.book-source.check-keyword:我的}")
+    private var checkKeyword: String = "我的"
+    
     // ==================== 书源查询操作 ====================
     
     /**
@@ -136,22 +153,125 @@ class SourceService(
     
     /**
      * 批量导入书源
+     *
+     * 逐个导入，每个书源在独立事务中提交，单个书源失败不影响其他书源。
+     * 书源的 rules 不为空时一并保存规则。
+     *
+     * @param overwrite 为 true 时覆盖 sourceId 相同的已有书源，否则视为失败
+     * @return created/updated 为成功导入的书源 ID，failed 为失败的书源及原因
      */
-    @CacheEvict(value = ["sources", "enabled-sources", "available-sources", "source-search"], allEntries = true)
-    fun importSources(sources: List<BookSource>): List<BookSource> {
-        logger.info("批量导入书源: ${sources.size} 个")
+    @CacheEvict(value = ["sources", "source", "enabled-sources", "available-sources", "source-search"], allEntries = true)
+    @Transactional(propagation = Propagation.NOT_SUPPORTED)
+    fun importSources(sources: List<BookSource>, overwrite: Boolean = false): Map<String, Any> {
+        logger.info("批量导入书源: ${sources.size} 个, overwrite=$overwrite")
+        
+        val created = mutableListOf<String>()
+        val updated = mutableListOf<String>()
+        val failed = mutableListOf<Map<String, String>>()
         
         sources.forEach { source ->
-            if (bookSourceRepository.existsBySourceId(source.sourceId)) {
-                throw IllegalArgumentException("书源 ID 已存在: ${source.sourceId}")
+            try {
+                if (source.sourceId.isBlank()) {
+                    throw IllegalArgumentException("书源 ID 不能为空")
+                }
+                if (source.name.isBlank()) {
+                    throw IllegalArgumentException("书源名称不能为空")
+                }
+                
+                val isNew = requiresNew.execute { importSource(source, overwrite) } ?: false
+                if (isNew) created.add(source.sourceId) else updated.add(source.sourceId)
+            } catch (e: Exception) {
+                logger.warn("导入书源失败: ${source.sourceId}, ${e.message}")
+                failed.add(mapOf(
+                    "sourceId" to source.sourceId,
+                    "name" to source.name,
+                    "message" to (e.message ?: "未知错误")
+                ))
             }
         }
         
-        return bookSourceRepository.saveAll(sources)
+        return mapOf(
+            "created" to created,
+            "updated" to updated,
+            "failed" to failed
+        )
+    }
+    
+    /**
+     * 导入单个书源，返回是否为新建
+     */
+    private fun importSource(source: BookSource, overwrite: Boolean): Boolean {
+        val existing = bookSourceRepository.findBySourceId(source.sourceId)
+        if (existing != null && !overwrite) {
+            throw IllegalArgumentException("书源 ID 已存在: ${source.sourceId}")
+        }
+        
+        val rules = source.rules?.let { saveRules(source.sourceId, it) }
+        if (existing == null) {
+            bookSourceRepository.save(source.copy(id = null, bookSourceRuleId = rules?.id, rules = null))
+            return true
+        }
+        
+        // 保留使用记录和本地评级；规则可能已变化，检查状态需要重新检查
+        bookSourceRepository.save(
+            source.copy(
+                id = existing.id,
+                bookSourceRuleId = rules?.id ?: existing.bookSourceRuleId,
+                rules = null,
+                securityRating = source.securityRating ?: existing.securityRating,
+                lastUsedAt = existing.lastUsedAt,
+                createdAt = existing.createdAt
+            )
+        )
+        return false
+    }
+    
+    /**
+     * 保存书源规则，ruleId 与书源 ID 相同，已存在时覆盖
+     */
+    private fun saveRules(sourceId: String, rules: BookSourceRules): BookSourceRules {
+        val existing = bookSourceRulesRepository.findByRuleId(sourceId)
+        return bookSourceRulesRepository.save(
+            rules.copy(
+                id = existing?.id,
+                ruleId = sourceId,
+                createdAt = existing?.createdAt ?: LocalDateTime.now()
+            )
+        )
+    }
+    
+    /**
+     * 获取所有书源规则
+     */
+    fun getAllRules(): List<BookSourceRules> {
+        return bookSourceRulesRepository.findAll()
+    }
+    
+    /**
+     * 获取单个书源的规则，没有规则时返回 null
+     */
+    fun getRules(sourceId: String): BookSourceRules? {
+        getSourceById(sourceId)
+        return bookSourceRulesRepository.findByRuleId(sourceId)
     }
     
     // ==================== 书源更新操作 ====================
     
+    /**
+     * 保存书源规则，规则变化后已缓存的详情、目录和正文也一并清除
+     */
+    @CacheEvict(value = ["sources", "source", "enabled-sources", "available-sources", "source-search", "book-info", "chapter-list", "chapter-content"], allEntries = true)
+    fun updateRules(sourceId: String, rules: BookSourceRules): BookSourceRules {
+        logger.info("更新书源规则: $sourceId")
+        
+        val source = getSourceById(sourceId)
+        val saved = saveRules(sourceId, rules)
+        if (source.bookSourceRuleId != saved.id) {
+            bookSourceRepository.save(source.copy(bookSourceRuleId = saved.id, rules = null))
+        }
+        return saved
+    }
+    
     /**
      * 更新书源
      */
@@ -183,6 +303,26 @@ class SourceService(
         return bookSourceRepository.save(source)
     }
     
+    /**
+     * 批量设置书源分组，只修改分组，不存在的书源忽略
+     *
+     * @param groups sourceId 到分组的映射，多个分组用逗号分隔，空字符串表示清空
+     * @return 修改后的书源
+     */
+    @CacheEvict(value = ["sources", "source", "enabled-sources", "available-sources", "source-search"], allEntries = true)
+    fun updateGroups(groups: Map<String, String>): List<BookSource> {
+        logger.info("批量设置书源分组: ${groups.size} 个")
+        
+        val now = LocalDateTime.now()
+        val sources = groups.mapNotNull { (sourceId, group) ->
+            bookSourceRepository.findBySourceId(sourceId)?.apply {
+                this.group = group.ifBlank { null }
+                updatedAt = now
+            }
+        }
+        return bookSourceRepository.saveAll(sources)
+    }
+    
     /**
      * 更新书源权重
      */
@@ -195,7 +335,9 @@ class SourceService(
     // ==================== 书源删除操作 ====================
     
     /**
-     * 删除书源
+     * 删除书源，同时删除它的测试用例
+     *
+     * SQLite 连接没有开启外键约束，不能依赖 ON DELETE CASCADE
      */
     @CacheEvict(value = ["sources", "source", "enabled-sources", "available-sources", "source-search"], allEntries = true)
     fun deleteSource(sourceId: String): Boolean {
@@ -203,6 +345,7 @@ class SourceService(
         
         val source = bookSourceRepository.findBySourceId(sourceId)
         if (source != null) {
+            sourceFixtureRepository.deleteBySourceId(sourceId)
             bookSourceRepository.delete(source)
             return true
         }
@@ -210,18 +353,13 @@ class SourceService(
     }
     
     /**
-     * 批量删除书源
+     * 批量删除书源，返回实际删除的书源 ID
      */
     @CacheEvict(value = ["sources", "enabled-sources", "available-sources", "source-search"], allEntries = true)
-    fun deleteSources(sourceIds: List<String>): Int {
+    fun deleteSources(sourceIds: List<String>): List<String> {
         logger.info("批量删除书源: ${sourceIds.size} 个")
         
-        var count = 0
-        sourceIds.forEach { id ->
-            if (deleteSource(id)) count++
-        }
-        
-        return count
+        return sourceIds.filter { deleteSource(it) }
     }
     
     // ==================== 书源规则解析 ====================
@@ -316,19 +454,7 @@ class SourceService(
             val futures = sources.map { source ->
                 java.util.concurrent.CompletableFuture.supplyAsync {
                     try {
-                        logger.debug("从书源搜索: ${source.name}")
-                        val searchResults = rhinoEngine.executeSearchRule(
-                            source,
-                            source.rules ?: throw IllegalArgumentException("书源规则不存在"),
-                            keyword
-                        )
-                        searchResults.forEach { result ->
-                            result["sourceId"] = source.sourceId
-                            result["sourceName"] = source.name
-                        }
-                        source.updateUsedTime()
-                        bookSourceRepository.save(source)
-                        searchResults
+                        searchInSource(source, keyword)
                     } catch (e: Exception) {
                         logger.error("书源搜索失败: ${source.name}", e)
                         emptyList()
@@ -353,39 +479,98 @@ class SourceService(
         return results
     }
     
+    /**
+     * 在单个书源中搜索书籍
+     *
+     * 与多源搜索不同，书源失败时直接抛出异常，调用方可以区分失败和没有结果
+     */
+    fun searchSource(keyword: String, sourceId: String): List<Map<String, Any>> {
+        logger.info("搜索书籍: $keyword, source: $sourceId")
+        return searchInSource(getSourceById(sourceId), keyword)
+    }
+    
+    // 搜索结果中已带有 sourceId 和 sourceName
+    private fun searchInSource(source: BookSource, keyword: String): List<Map<String, Any>> {
+        logger.debug("从书源搜索: ${source.name}")
+        val searchResults = rhinoEngine.fetchSearchResult(
+            source,
+            source.rules ?: throw IllegalArgumentException("书源规则不存在"),
+            keyword
+        )
+        source.updateUsedTime()
+        bookSourceRepository.save(source)
+        return searchResults
+    }
+    
     // ==================== 书源检查 ====================
     
     /**
      * 检查书源可用性
+     *
+     * 有搜索规则时依次执行搜索、详情、目录、正文，任一阶段失败即停止并记录失败阶段；
+     * 没有搜索规则时只检查首页能否访问。
+     * 网络请求不在事务中执行，检查结果在独立事务中保存，避免长时间占用数据库写锁。
      */
-    @CacheEvict(value = ["available-sources"], allEntries = true)
+    @CacheEvict(value = ["sources", "source", "available-sources", "source-stats"], allEntries = true)
+    @Transactional(propagation = Propagation.NOT_SUPPORTED)
     fun checkSource(sourceId: String): BookSource {
         logger.info("检查书源: $sourceId")
         
         val source = getSourceById(sourceId)
+        val startedAt = System.currentTimeMillis()
+        var stage = "site"
         
         try {
-            // 简单检查：尝试获取首页
-            val url = source.url ?: throw IllegalArgumentException("书源 URL 为空")
-            val result = rhinoEngine.checkUrl(url)
+            val rules = bookSourceRulesRepository.findByRuleId(sourceId)
+            if (rules == null || rules.searchUrl.isNullOrBlank()) {
+                val url = source.url ?: throw IllegalArgumentException("书源 URL 为空")
+                if (!rhinoEngine.checkUrl(url)) throw IllegalStateException("首页无法访问")
+                return saveCheckResult(sourceId, "success", "首页可访问（没有搜索规则）", null, startedAt)
+            }
+            
+            stage = "search"
+            val books = rhinoEngine.executeSearchRule(source, rules, checkKeyword)
+            val bookUrl = books.map { it["bookUrl"]?.toString().orEmpty() }.firstOrNull { it.isNotBlank() }
+                ?: throw IllegalStateException("搜索 \"$checkKeyword\" 没有结果")
             
-            if (result) {
-                source.updateCheckStatus("success", "书源可用")
-            } else {
-                source.updateCheckStatus("failed", "书源不可用")
+            // 没有详情规则的书源跳过详情检查
+            if (!rules.bookInfo.isNullOrBlank()) {
+                stage = "bookInfo"
+                val info = rhinoEngine.executeBookInfoRule(source, rules, bookUrl)
+                if (info["name"]?.toString().isNullOrBlank()) throw IllegalStateException("没有解析到书名")
             }
+            
+            stage = "toc"
+            val chapters = rhinoEngine.executeChapterListRule(source, rules, bookUrl)
+            val chapter = chapters.firstOrNull { it.url.isNotBlank() } ?: throw IllegalStateException("目录为空")
+            
+            stage = "content"
+            val content = rhinoEngine.executeContentRule(source, rules, chapter.url, bookUrl)
+            if (content.isBlank()) throw IllegalStateException("正文为空: ${chapter.title}")
+            
+            return saveCheckResult(sourceId, "success", "搜索到 ${books.size} 本，目录 ${chapters.size} 章", null, startedAt)
         } catch (e: Exception) {
-            logger.error("书源检查失败: $sourceId", e)
-            source.updateCheckStatus("failed", e.message)
+            logger.error("书源检查失败: $sourceId, stage=$stage", e)
+            return saveCheckResult(sourceId, "failed", e.message, stage, startedAt)
         }
-        
-        return bookSourceRepository.save(source)
     }
     
     /**
-     * 批量检查书源
+     * 保存检查结果，重新读取书源后只更新检查状态，不覆盖检查期间对书源的其他修改
+     */
+    private fun saveCheckResult(sourceId: String, status: String, message: String?, stage: String?, startedAt: Long): BookSource {
+        return requiresNew.execute {
+            val source = getSourceById(sourceId)
+            source.updateCheckStatus(status, message, stage, System.currentTimeMillis() - startedAt)
+            bookSourceRepository.save(source)
+        } ?: throw IllegalStateException("保存检查结果失败: $sourceId")
+    }
+    
+    /**
+     * 批量检查书源，逐个检查并分别保存结果
      */
-    @CacheEvict(value = ["available-sources"], allEntries = true)
+    @CacheEvict(value = ["sources", "source", "available-sources", "source-stats"], allEntries = true)
+    @Transactional(propagation = Propagation.NOT_SUPPORTED)
     fun checkSources(sourceIds: List<String>? = null): List<BookSource> {
         logger.info("批量检查书源: ${sourceIds?.size ?: "all"}")
         
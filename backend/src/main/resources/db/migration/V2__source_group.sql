@@ -0,0 +1,5 @@
+-- ============================================
+-- 书源分组（导入 Legado 书源时保留 bookSourceGroup）
+-- ============================================
+ 
+ALTER TABLE book_sources ADD COLUMN source_group VARCHAR(200);
@@ -0,0 +1,6 @@
+-- ============================================
+-- 书源检查详情（失败阶段和耗时）
+-- ============================================
+ 
+ALTER TABLE book_sources ADD COLUMN check_stage VARCHAR(20);
+ALTER TABLE book_sources ADD COLUMN check_duration BIGINT;
@@ -0,0 +1,5 @@
+-- ============================================
+-- 书源安全评级（1-5，未评级为空）
+-- ============================================
+ 
+ALTER TABLE book_sources ADD COLUMN security_rating INTEGER;
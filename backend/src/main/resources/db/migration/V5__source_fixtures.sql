@@ -0,0 +1,20 @@
+-- ============================================
+-- 书源测试用例（保存的页面快照和期望的提取结果）
+-- ============================================
+ 
+CREATE TABLE IF NOT EXISTS source_fixtures (
+    id VARCHAR(36) PRIMARY KEY,
+    source_id VARCHAR(100) NOT NULL,
+    name VARCHAR(200) NOT NULL,
+    stage VARCHAR(20) NOT NULL,
+    url VARCHAR(2000) NOT NULL,
+    input VARCHAR(2000),
+    body TEXT NOT NULL,
+    content_type VARCHAR(20),
+    expected TEXT NOT NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (source_id) REFERENCES book_sources(source_id) ON DELETE CASCADE
+);
+ 
+CREATE INDEX IF NOT EXISTS idx_fixture_source_id ON source_fixtures(source_id);
@@ -0,0 +1,123 @@
+package com.moyue.controller
+ 
+import com.moyue.debug.HttpInspector
+import com.moyue.debug.SourceDebugger
+import com.moyue.engine.RhinoEngine
+import com.moyue.model.BookSource
+import com.moyue.repository.BookSourceRepository
+import com.moyue.repository.BookSourceRulesRepository
+import com.moyue.security.SecurityEventLog
+import com.moyue.service.CacheService
+import com.moyue.service.PreferenceService
+import com.moyue.service.SourceService
+import com.moyue.source.JsExtensions
+import com.sun.net.httpserver.HttpServer
+import okhttp3.OkHttpClient
+import org.junit.jupiter.api.AfterEach
+import org.junit.jupiter.api.Assertions.assertEquals
+import org.junit.jupiter.api.Assertions.assertFalse
+import org.junit.jupiter.api.Assertions.assertTrue
+import org.junit.jupiter.api.BeforeEach
+import org.junit.jupiter.api.Test
+import org.mockito.Mockito.mock
+import org.mockito.Mockito.`when`
+import org.springframework.cache.CacheManager
+import org.springframework.http.HttpStatus
+import java.net.InetSocketAddress
+import java.util.concurrent.Executor
+import java.util.concurrent.atomic.AtomicInteger
+ 
+/**
+ * 测试 URL 接口的安全策略
+ *
+ * 本地服务监听 127.0.0.1，默认策略（trusted）允许访问，
+ * 标准策略把 127.0.0.1 列入黑名单。
+ */
+class DebugControllerTest {
+ 
+    private val hits = AtomicInteger()
+    private lateinit var server: HttpServer
+    private lateinit var url: String
+    
+    private val bookSourceRepository = mock(BookSourceRepository::class.java)
+    private val httpInspector = HttpInspector(OkHttpClient(), SecurityEventLog(), "trusted")
+    private val sourceDebugger = SourceDebugger(
+        bookSourceRepository,
+        mock(BookSourceRulesRepository::class.java),
+        mock(RhinoEngine::class.java),
+        mock(JsExtensions::class.java),
+        httpInspector
+    )
+    private val controller = DebugController(
+        mock(RhinoEngine::class.java),
+        mock(SourceService::class.java),
+        mock(CacheService::class.java),
+        mock(PreferenceService::class.java),
+        mock(CacheManager::class.java),
+        mock(Executor::class.java),
+        httpInspector,
+        sourceDebugger
+    )
+    
+    @BeforeEach
+    fun startServer() {
+        server = HttpServer.create(InetSocketAddress("127.0.0.1", 0), 0).apply {
+            createContext("/") { exchange ->
+                hits.incrementAndGet()
+                val body = "ok".toByteArray()
+                exchange.sendResponseHeaders(200, body.size.toLong())
+                exchange.responseBody.use { it.write(body) }
+            }
+            start()
+        }
+        url = "http://127.0.0.1:${server.address.port}/page"
+        // 未评级的书源使用标准策略
+        `when`(bookSourceRepository.findBySourceId("standard-source"))
+            .thenReturn(BookSource(sourceId = "standard-source", name = "标准书源"))
+    }
+    
+    @AfterEach
+    fun stopServer() {
+        server.stop(0)
+    }
+    
+    @Test
+    fun `不关联会话时使用默认策略`() {
+        val response = controller.testSourceUrl(DebugController.TestUrlRequest(url = url))
+        
+        assertEquals(true, response.body?.data?.get("success"))
+        assertEquals(1, hits.get())
+    }
+    
+    @Test
+    fun `会话中重放被书源策略禁止的地址时拒绝请求`() {
+        val sessionId = sourceDebugger.createSession("standard-source")
+        
+        val response = controller.testSourceUrl(
+            DebugController.TestUrlRequest(
+                url = url,
+                method = "POST",
+                headers = mapOf("Content-Type" to "text/plain"),
+                body = "edited",
+                sessionId = sessionId
+            )
+        )
+        
+        val data = response.body?.data
+        assertEquals(false, data?.get("success"))
+        assertTrue(data?.get("error").toString().startsWith("网络访问被拒绝"))
+        assertEquals(0, hits.get())
+        // 被拒绝的请求也记录到会话的网络面板
+        val requests = sourceDebugger.getSession(sessionId)!!.requests
+        assertEquals(1, requests.size)
+        assertFalse(requests[0].success)
+    }
+    
+    @Test
+    fun `会话不存在时不发出请求`() {
+        val response = controller.testSourceUrl(DebugController.TestUrlRequest(url = url, sessionId = "missing"))
+        
+        assertEquals(HttpStatus.NOT_FOUND, response.statusCode)
+        assertEquals(0, hits.get())
+    }
+}
@@ -6,13 +6,17 @@ import {
   protocol,
   nativeTheme,
   crashReporter,
-  autoUpdater
+  dialog,
+  shell,
+  net
 } from 'electron'
+import { autoUpdater } from 'electron-updater'
 import path from 'path'
 import { ChildProcess, spawn } from 'child_process'
 import fs from 'fs'
 import { fileURLToPath } from 'url'
 import log from 'electron-log'
+import { createSubscriptionManager, type SourceSubscriptionInput } from './subscriptions'
  
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = path.dirname(__filename)
@@ -50,12 +54,41 @@ interface WindowState {
   isMaximized?: boolean
 }
  
+// 应用设置（保存在主进程，后端启动前即可读取）
+interface AppSettings {
+  theme: 'system' | 'light' | 'dark'
+  backend: {
+    port: number | null
+    minHeap: string
+    maxHeap: string
+  }
+  dataDir: string | null
+  updateChannel: 'stable' | 'beta'
+}
+ 
+type AppSettingsPatch = Partial<Omit<AppSettings, 'backend'>> & {
+  backend?: Partial<AppSettings['backend']>
+}
+ 
+const DEFAULT_SETTINGS: AppSettings = {
+  theme: 'system',
+  backend: {
+    port: null,
+    minHeap: '256m',
+    maxHeap: '1024m'
+  },
+  dataDir: null,
+  updateChannel: 'stable'
+}
+ 
 const statePath = path.join(app.getPath('userData'), 'window-state.json')
+const settingsPath = path.join(app.getPath('userData'), 'settings.json')
 let mainWindow: BrowserWindow | null = null
 let javaProcess: ChildProcess | null = null
 let javaReady = false
 let javaRestartCount = 0
 const MAX_RESTART_ATTEMPTS = 5
+const HEALTH_CHECK_ATTEMPTS = 20
  
 // 加载窗口状态
 function loadWindowState(): WindowState {
@@ -88,6 +121,75 @@ function saveWindowState(win: BrowserWindow) {
   }
 }
  
+// 加载应用设置
+function loadAppSettings(): AppSettings {
+  try {
+    if (fs.existsSync(settingsPath)) {
+      const data = JSON.parse(fs.readFileSync(settingsPath, 'utf-8'))
+      return {
+        ...DEFAULT_SETTINGS,
+        ...data,
+        backend: { ...DEFAULT_SETTINGS.backend, ...data.backend }
+      }
+    }
+  } catch (error) {
+    log.warn('加载应用设置失败:', error)
+  }
+  return { ...DEFAULT_SETTINGS, backend: { ...DEFAULT_SETTINGS.backend } }
+}
+ 
+// 校验设置，非法值回退到默认值
+function sanitizeSettings(settings: AppSettings): AppSettings {
+  const heapPattern = /^\d+[mg]$/i
+  const port = settings.backend.port
+  
+  return {
+    theme: ['system', 'light', 'dark'].includes(settings.theme) ? settings.theme : DEFAULT_SETTINGS.theme,
+    backend: {
+      port: port && Number.isInteger(port) && port >= 1024 && port <= 65535 ? port : null,
+      minHeap: heapPattern.test(settings.backend.minHeap) ? settings.backend.minHeap : DEFAULT_SETTINGS.backend.minHeap,
+      maxHeap: heapPattern.test(settings.backend.maxHeap) ? settings.backend.maxHeap : DEFAULT_SETTINGS.backend.maxHeap
+    },
+    dataDir: settings.dataDir || null,
+    updateChannel: settings.updateChannel === 'beta' ? 'beta' : 'stable'
+  }
+}
+ 
+// 保存应用设置
+function saveAppSettings(settings: AppSettings) {
+  try {
+    fs.writeFileSync(settingsPath, JSON.stringify(settings, null, 2))
+  } catch (error) {
+    log.warn('保存应用设置失败:', error)
+  }
+}
+ 
+let appSettings = sanitizeSettings(loadAppSettings())
+ 
+// 书源订阅，后端就绪后开始定时刷新
+const subscriptions = createSubscriptionManager({
+  storePath: path.join(app.getPath('userData'), 'subscriptions.json'),
+  fetchText: async (url) => {
+    const response = await net.fetch(url)
+    if (!response.ok) throw new Error(`请求失败: HTTP ${response.status}`)
+    return response.text()
+  },
+  backendUrl: () => (javaReady && app.backendPort ? `http://localhost:${app.backendPort}` : null),
+  onChange: (list) => mainWindow?.webContents.send('subscriptions-changed', list)
+})
+ 
+// 后端端口：设置优先，其次环境变量
+function resolveBackendPort(): number {
+  return appSettings.backend.port || parseInt(process.env.BACKEND_PORT || '18080')
+}
+ 
+// 应用主题与更新通道设置
+function applySettings() {
+  nativeTheme.themeSource = appSettings.theme
+  autoUpdater.channel = appSettings.updateChannel === 'beta' ? 'beta' : 'latest'
+  autoUpdater.allowPrerelease = appSettings.updateChannel === 'beta'
+}
+ 
 // 创建窗口
 function createWindow() {
   const savedState = loadWindowState()
@@ -234,19 +336,34 @@ function startJavaBackend(): Promise<boolean> {
       return
     }
  
+    // 数据目录不存在时 SQLite 无法创建数据库文件
+    if (appSettings.dataDir) {
+      try {
+        fs.mkdirSync(appSettings.dataDir, { recursive: true })
+      } catch (error) {
+        log.error('创建数据目录失败:', error)
+        mainWindow?.webContents.send('backend-startup-failed', {
+          error: `无法创建数据目录: ${appSettings.dataDir}`
+        })
+        resolve(false)
+        return
+      }
+    }
+ 
     // JVM 参数
     const jvmArgs = [
       '-Xshare:on',
       '-server',
-      '-Xms256m',
-      '-Xmx1024m',
+      `-Xms${appSettings.backend.minHeap}`,
+      `-Xmx${appSettings.backend.maxHeap}`,
       '-XX:+UseG1GC',
       '-XX:+UseStringDeduplication',
       '-XX:MaxGCPauseMillis=100',
       '-XX:InitiatingHeapOccupancyPercent=45',
       '-Djava.awt.headless=true',
       '-Dfile.encoding=UTF-8',
-      `-Dserver.port=${process.env.BACKEND_PORT || 18080}`,
+      `-Dserver.port=${resolveBackendPort()}`,
+      ...(appSettings.dataDir ? [`-Dmoyue.data.home=${appSettings.dataDir}`] : []),
       '-jar',
       jarPath
     ]
@@ -274,6 +391,7 @@ function startJavaBackend(): Promise<boolean> {
     }
  
     try {
+      app.backendPort = resolveBackendPort()
       javaProcess = spawn('java', jvmArgs, spawnOptions)
       javaRestartCount++
  
@@ -285,11 +403,7 @@ function startJavaBackend(): Promise<boolean> {
           
           // 检测启动完成
           if (output.includes('Started MoyueApplication') || output.includes('Tomcat started')) {
-            javaReady = true
-            javaRestartCount = 0
-            app.backendPort = parseInt(process.env.BACKEND_PORT || '18080')
-            log.info('Java 后端启动完成，端口:', app.backendPort)
-            mainWindow?.webContents.send('backend-ready', { port: app.backendPort })
+            markBackendReady()
           }
         })
  
@@ -323,16 +437,26 @@ function startJavaBackend(): Promise<boolean> {
         })
       })
  
-      // 等待启动
-      setTimeout(async () => {
+      // 等待启动，每 3 秒检查一次健康状态
+      const waitForHealthy = async (attempt: number) => {
+        if (!javaProcess) {
+          resolve(false)
+          return
+        }
+        
         const healthy = await checkBackendHealth()
         if (healthy) {
           log.info('Java 后端健康检查通过')
+          markBackendReady()
           resolve(true)
-        } else {
+        } else if (attempt < HEALTH_CHECK_ATTEMPTS) {
           log.warn('Java 后端健康检查失败，继续等待...')
+          setTimeout(() => waitForHealthy(attempt + 1), 3000)
+        } else {
+          resolve(false)
         }
-      }, 3000)
+      }
+      setTimeout(() => waitForHealthy(1), 3000)
  
     } catch (err) {
       log.error('启动 Java 后端异常:', err)
@@ -341,6 +465,16 @@ function startJavaBackend(): Promise<boolean> {
   })
 }
  
+// 标记后端就绪并通知渲染进程（开发模式下日志和健康检查都可能触发）
+function markBackendReady() {
+  if (javaReady) return
+  javaReady = true
+  javaRestartCount = 0
+  log.info('Java 后端启动完成，端口:', app.backendPort)
+  mainWindow?.webContents.send('backend-ready', { port: app.backendPort })
+  subscriptions.start()
+}
+ 
 // 停止 Java 后端
 function stopJavaBackend(): Promise<void> {
   return new Promise((resolve) => {
@@ -412,11 +546,114 @@ ipcMain.handle('get-native-theme', () => {
   }
 })
  
-ipcMain.on('native-theme-updated', () => {
+nativeTheme.on('updated', () => {
   const shouldUseDarkColors = nativeTheme.shouldUseDarkColors
   mainWindow?.webContents.send('theme-changed', { shouldUseDarkColors })
 })
  
+ipcMain.handle('get-settings', () => {
+  return appSettings
+})
+ 
+ipcMain.handle('update-settings', (_event, patch: AppSettingsPatch) => {
+  appSettings = sanitizeSettings({
+    ...appSettings,
+    ...patch,
+    backend: { ...appSettings.backend, ...patch.backend }
+  })
+  saveAppSettings(appSettings)
+  applySettings()
+  return appSettings
+})
+ 
+ipcMain.handle('check-for-updates', async () => {
+  if (process.env.NODE_ENV === 'development') return
+  await autoUpdater.checkForUpdates()
+})
+ 
+// 用户在对话框中选择过的文件，渲染进程只能读取这些文件
+const selectedFiles = new Set<string>()
+ 
+ipcMain.handle('select-file', async (_event, options: Electron.OpenDialogOptions) => {
+  if (!mainWindow) return null
+  const result = await dialog.showOpenDialog(mainWindow, {
+    ...options,
+    properties: options?.properties || ['openFile']
+  })
+  if (result.canceled) return null
+  result.filePaths.forEach(filePath => selectedFiles.add(filePath))
+  return result.filePaths
+})
+ 
+ipcMain.handle('read-file', async (_event, filePath: string) => {
+  if (!selectedFiles.has(filePath)) {
+    throw new Error('只能读取通过对话框选择的文件')
+  }
+  return new Uint8Array(await fs.promises.readFile(filePath))
+})
+ 
+ipcMain.handle('select-directory', async (_event, options: Electron.OpenDialogOptions) => {
+  if (!mainWindow) return null
+  const result = await dialog.showOpenDialog(mainWindow, {
+    ...options,
+    properties: options?.properties || ['openDirectory', 'createDirectory']
+  })
+  return result.canceled ? null : result.filePaths[0]
+})
+ 
+// 弹出保存对话框并写入文件，返回保存路径，取消时返回 null
+ipcMain.handle('save-file', async (_event, options: Electron.SaveDialogOptions & { data: Uint8Array | string }) => {
+  if (!mainWindow) return null
+  const { data, ...dialogOptions } = options
+  const result = await dialog.showSaveDialog(mainWindow, dialogOptions)
+  if (result.canceled || !result.filePath) return null
+ 
+  await fs.promises.writeFile(result.filePath, typeof data === 'string' ? data : Buffer.from(data))
+  log.info('文件已保存:', result.filePath)
+  return result.filePath
+})
+ 
+// 下载图片（渲染进程受 CSP 限制无法读取外部图片数据），失败时返回 null
+ipcMain.handle('fetch-image', async (_event, url: string) => {
+  if (!/^https?:\/\//.test(url)) return null
+  try {
+    const response = await net.fetch(url)
+    const mimeType = response.headers.get('content-type')?.split(';')[0] || ''
+    if (!response.ok || !mimeType.startsWith('image/')) return null
+    return { data: new Uint8Array(await response.arrayBuffer()), mimeType }
+  } catch (error) {
+    log.warn('下载图片失败:', url, error)
+    return null
+  }
+})
+ 
+// 获取远程文本（如书源订阅），失败时抛出错误由渲染进程提示
+ipcMain.handle('fetch-text', async (_event, url: string) => {
+  if (!/^https?:\/\//.test(url)) throw new Error('只支持 http/https 地址')
+  const response = await net.fetch(url)
+  if (!response.ok) throw new Error(`请求失败: HTTP ${response.status}`)
+  return response.text()
+})
+ 
+// 书源订阅
+ipcMain.handle('subscriptions-list', () => subscriptions.list())
+ 
+ipcMain.handle('subscriptions-add', (_event, input: SourceSubscriptionInput) => subscriptions.add(input))
+ 
+ipcMain.handle('subscriptions-update', (_event, id: string, patch: Partial<SourceSubscriptionInput>) => {
+  return subscriptions.update(id, patch)
+})
+ 
+ipcMain.handle('subscriptions-remove', (_event, id: string) => subscriptions.remove(id))
+ 
+ipcMain.handle('subscriptions-refresh', (_event, id: string) => subscriptions.refresh(id))
+ 
+ipcMain.handle('subscriptions-logs', (_event, id: string) => subscriptions.logs(id))
+ 
+ipcMain.handle('show-item-in-folder', (_event, filePath: string) => {
+  shell.showItemInFolder(filePath)
+})
+ 
 // 自动更新
 function setupAutoUpdater() {
   if (process.env.NODE_ENV === 'development') return
@@ -426,6 +663,7 @@ function setupAutoUpdater() {
     owner: 'gncysy',
     repo: 'moyue-reader'
   })
+  applySettings()
  
   autoUpdater.on('checking-for-update', () => {
     log.info('检查更新中...')
@@ -470,6 +708,7 @@ function registerProtocols() {
  
 // 应用启动
 app.whenReady().then(async () => {
+  nativeTheme.themeSource = appSettings.theme
   registerProtocols()
   setupAutoUpdater()
   
@@ -479,7 +718,7 @@ app.whenReady().then(async () => {
       responseHeaders: {
         ...details.responseHeaders,
         'Content-Security-Policy': [
-          "default-src 'self'; script-src 'self'; style-src 'self' 'unsafe-inline'; img-src 'self' data: https:; connect-src 'self' ws: wss:;"
+          "default-src 'self'; script-src 'self'; style-src 'self' 'unsafe-inline'; img-src 'self' data: https:; connect-src 'self' http://127.0.0.1:* http://localhost:* ws: wss:;"
         ]
       }
     })
@@ -505,6 +744,7 @@ app.on('window-all-closed', () => {
  
 app.on('before-quit', async () => {
   app.isQuitting = true
+  subscriptions.stop()
   await stopJavaBackend()
 })
  
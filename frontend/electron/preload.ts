@@ -31,6 +31,12 @@ interface WindowAPI {
     onChanged: (callback: (theme: { shouldUseDarkColors: boolean }) => void) => () => void
   }
   
+  // 应用设置
+  settings: {
+    get: () => Promise<AppSettings>
+    update: (patch: AppSettingsPatch) => Promise<AppSettings>
+  }
+  
   // 自动更新
   updater: {
     checkForUpdates: () => Promise<void>
@@ -45,7 +51,23 @@ interface WindowAPI {
     openPath: (path: string) => Promise<void>
     showItemInFolder: (path: string) => Promise<void>
     selectFile: (options: FileOpenOptions) => Promise<string[] | null>
+    // 只能读取 selectFile 返回的文件
+    readFile: (path: string) => Promise<Uint8Array>
     selectDirectory: (options: DirectoryOpenOptions) => Promise<string | null>
+    saveFile: (options: FileSaveOptions) => Promise<string | null>
+    fetchImage: (url: string) => Promise<{ data: Uint8Array; mimeType: string } | null>
+    fetchText: (url: string) => Promise<string>
+  }
+  
+  // 书源订阅（主进程定时刷新）
+  subscriptions: {
+    list: () => Promise<SourceSubscription[]>
+    add: (input: SourceSubscriptionInput) => Promise<SourceSubscription>
+    update: (id: string, patch: Partial<SourceSubscriptionInput>) => Promise<SourceSubscription>
+    remove: (id: string) => Promise<void>
+    refresh: (id: string) => Promise<SubscriptionLogEntry>
+    logs: (id: string) => Promise<SubscriptionLogEntry[]>
+    onChanged: (callback: (subscriptions: SourceSubscription[]) => void) => () => void
   }
   
   // 日志
@@ -61,6 +83,21 @@ interface BackendStatus {
   port?: number
 }
  
+interface AppSettings {
+  theme: 'system' | 'light' | 'dark'
+  backend: {
+    port: number | null
+    minHeap: string
+    maxHeap: string
+  }
+  dataDir: string | null
+  updateChannel: 'stable' | 'beta'
+}
+ 
+type AppSettingsPatch = Partial<Omit<AppSettings, 'backend'>> & {
+  backend?: Partial<AppSettings['backend']>
+}
+ 
 interface UpdateInfo {
   version: string
   releaseName?: string
@@ -88,6 +125,43 @@ interface DirectoryOpenOptions {
   properties?: Array<'openDirectory' | 'createDirectory' | 'multiSelections' | 'showHiddenFiles'>
 }
  
+interface FileSaveOptions {
+  title?: string
+  defaultPath?: string
+  filters?: Array<{ name: string; extensions: string[] }>
+  // 文本按 UTF-8 写入
+  data: Uint8Array | string
+}
+ 
+interface SourceSubscription {
+  id: string
+  name: string
+  url: string
+  enabled: boolean
+  intervalHours: number
+  lastSyncAt: string | null
+  lastError: string | null
+  sourceIds: string[]
+  createdAt: string
+  refreshing?: boolean
+}
+ 
+type SourceSubscriptionInput = Pick<SourceSubscription, 'url'> &
+  Partial<Pick<SourceSubscription, 'name' | 'enabled' | 'intervalHours'>>
+ 
+interface SubscriptionLogEntry {
+  id: string
+  subscriptionId: string
+  time: string
+  added: string[]
+  updated: Array<{ name: string; changes: string }>
+  unchanged: number
+  removed: string[]
+  invalid: Array<{ index: number; name: string; message: string }>
+  failed: Array<{ name: string; message: string }>
+  error: string | null
+}
+ 
 // 白名单验证
 const allowedChannels = new Set([
   'window-maximized-changed',
@@ -96,7 +170,8 @@ const allowedChannels = new Set([
   'theme-changed',
   'update-available',
   'update-download-progress',
-  'update-downloaded'
+  'update-downloaded',
+  'subscriptions-changed'
 ])
  
 // 创建监听器包装器
@@ -156,6 +231,12 @@ const api: WindowAPI = {
       createListener('theme-changed', (theme: { shouldUseDarkColors: boolean }) => callback(theme))
   },
   
+  // 应用设置
+  settings: {
+    get: () => ipcRenderer.invoke('get-settings'),
+    update: (patch: AppSettingsPatch) => ipcRenderer.invoke('update-settings', patch)
+  },
+  
   // 自动更新
   updater: {
     checkForUpdates: () => ipcRenderer.invoke('check-for-updates'),
@@ -173,7 +254,24 @@ const api: WindowAPI = {
     openPath: (path: string) => ipcRenderer.invoke('open-path', path),
     showItemInFolder: (path: string) => ipcRenderer.invoke('show-item-in-folder', path),
     selectFile: (options: FileOpenOptions) => ipcRenderer.invoke('select-file', options),
-    selectDirectory: (options: DirectoryOpenOptions) => ipcRenderer.invoke('select-directory', options)
+    readFile: (path: string) => ipcRenderer.invoke('read-file', path),
+    selectDirectory: (options: DirectoryOpenOptions) => ipcRenderer.invoke('select-directory', options),
+    saveFile: (options: FileSaveOptions) => ipcRenderer.invoke('save-file', options),
+    fetchImage: (url: string) => ipcRenderer.invoke('fetch-image', url),
+    fetchText: (url: string) => ipcRenderer.invoke('fetch-text', url)
+  },
+  
+  // 书源订阅
+  subscriptions: {
+    list: () => ipcRenderer.invoke('subscriptions-list'),
+    add: (input: SourceSubscriptionInput) => ipcRenderer.invoke('subscriptions-add', input),
+    update: (id: string, patch: Partial<SourceSubscriptionInput>) =>
+      ipcRenderer.invoke('subscriptions-update', id, patch),
+    remove: (id: string) => ipcRenderer.invoke('subscriptions-remove', id),
+    refresh: (id: string) => ipcRenderer.invoke('subscriptions-refresh', id),
+    logs: (id: string) => ipcRenderer.invoke('subscriptions-logs', id),
+    onChanged: (callback) => 
+      createListener('subscriptions-changed', (subscriptions: SourceSubscription[]) => callback(subscriptions))
   },
   
   // 日志
@@ -0,0 +1,232 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import http from 'http'
+import type { AddressInfo } from 'net'
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest'
+import { createSubscriptionManager } from './subscriptions'
+import type { BookSource, BookSourceRules, SourceImportItem } from '../src/api/types'
+
+vi.mock('electron-log', () => ({ default: { warn: vi.fn() } }))
+
+// 本地 HTTP 服务同时提供订阅文件和后端的书源接口，后端状态保存在内存中
+let subscriptionBody = '[]'
+let sources: BookSource[] = []
+let rules: BookSourceRules[] = []
+let imports: SourceImportItem[][] = []
+// 导入时返回失败的书源 ID
+let rejected = new Set<string>()
+
+const now = '2026-01-01T00:00:00'
+
+const storedSource = (source: SourceImportItem['source'], id: string): BookSource => ({
+  ...source,
+  id,
+  enabled: source.enabled ?? true,
+  weight: source.weight ?? 0,
+  createdAt: now,
+  updatedAt: now,
+  isAvailable: true
+})
+
+const importBatch = (items: SourceImportItem[]) => {
+  imports.push(items)
+  const failed = items.filter(item => rejected.has(item.source.sourceId))
+  for (const item of items) {
+    if (rejected.has(item.source.sourceId)) continue
+    const index = sources.findIndex(source => source.sourceId === item.source.sourceId)
+    const stored = storedSource(item.source, index >= 0 ? sources[index].id : item.source.sourceId)
+    if (index >= 0) sources[index] = stored
+    else sources.push(stored)
+    if (item.rules) {
+      rules = [...rules.filter(rule => rule.ruleId !== item.source.sourceId), { ...item.rules } as BookSourceRules]
+    }
+  }
+  return {
+    created: [],
+    updated: [],
+    failed: failed.map(item => ({ sourceId: item.source.sourceId, name: item.source.name, message: '保存失败' }))
+  }
+}
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url ?? '/', 'http://localhost')
+  const send = (data: unknown) => {
+    res.setHeader('Content-Type', 'application/json')
+    res.end(JSON.stringify({ success: true, data }))
+  }
+
+  if (url.pathname === '/subscription.json') {
+    res.setHeader('Content-Type', 'application/json')
+    res.end(subscriptionBody)
+  } else if (url.pathname === '/api/sources' && req.method === 'GET') {
+    const page = Number(url.searchParams.get('page') ?? 0)
+    const size = Number(url.searchParams.get('size') ?? 20)
+    const content = sources.slice(page * size, (page + 1) * size)
+    send({ content, last: (page + 1) * size >= sources.length })
+  } else if (url.pathname === '/api/sources/rules') {
+    send(rules)
+  } else if (url.pathname === '/api/sources/import/batch' && req.method === 'POST') {
+    let body = ''
+    req.on('data', chunk => { body += chunk })
+    req.on('end', () => send(importBatch(JSON.parse(body).sources)))
+  } else {
+    res.statusCode = 404
+    res.end(JSON.stringify({ success: false, message: 'Not Found' }))
+  }
+})
+
+let baseUrl = ''
+let storeDir = ''
+
+const legadoSource = (name: string, url: string, searchUrl: string) => ({
+  bookSourceName: name,
+  bookSourceUrl: url,
+  bookSourceGroup: '订阅',
+  searchUrl,
+  ruleSearch: { bookList: '.list li', name: '.name', bookUrl: 'a@href' },
+  ruleToc: { chapterList: '#list a', chapterName: 'text', chapterUrl: 'href' },
+  ruleContent: { content: '#content' }
+})
+
+const createManager = () => createSubscriptionManager({
+  storePath: path.join(storeDir, 'subscriptions.json'),
+  fetchText: async url => {
+    const response = await fetch(url)
+    if (!response.ok) throw new Error(`请求失败: HTTP ${response.status}`)
+    return response.text()
+  },
+  backendUrl: () => baseUrl
+})
+
+beforeAll(async () => {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+})
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve))
+})
+
+beforeEach(() => {
+  storeDir = fs.mkdtempSync(path.join(os.tmpdir(), 'moyue-subscriptions-'))
+  // 本地已有一个改过分组、权重并停用的书源，规则与订阅中的不同
+  sources = [{
+    ...storedSource({
+      sourceId: 'local-b',
+      name: '书源 B',
+      url: 'https://b.example.com',
+      group: '我的',
+      enabled: false,
+      weight: 5
+    }, 'db-b')
+  }]
+  rules = [{ ruleId: 'local-b', searchUrl: 'https://b.example.com/old?q={{key}}', enabled: true } as BookSourceRules]
+  imports = []
+  rejected = new Set()
+})
+
+describe('书源订阅刷新', () => {
+  it('按书源地址合并，保留本地的启用状态、权重和分组', async () => {
+    subscriptionBody = JSON.stringify([
+      legadoSource('书源 A', 'https://a.example.com', 'https://a.example.com/search?q={{key}}'),
+      legadoSource('书源 B', 'https://b.example.com', 'https://b.example.com/search?q={{key}}')
+    ])
+    const manager = createManager()
+    const subscription = manager.add({ url: `${baseUrl}/subscription.json`, name: '测试订阅' })
+
+    const entry = await manager.refresh(subscription.id)
+
+    expect(entry.error).toBeNull()
+    expect(entry.added).toEqual(['书源 A'])
+    expect(entry.updated).toHaveLength(1)
+    expect(entry.updated[0].name).toBe('书源 B')
+    expect(entry.updated[0].changes).toContain('规则')
+    expect(entry.unchanged).toBe(0)
+
+    const imported = imports.flat()
+    expect(imported.map(item => item.source.sourceId)).toEqual(['a.example.com', 'local-b'])
+    const b = imported[1]
+    expect(b.source).toMatchObject({ enabled: false, weight: 5, group: '我的' })
+    expect(b.rules?.ruleId).toBe('local-b')
+    expect(b.rules?.searchUrl).toBe('https://b.example.com/search?q={{key}}')
+
+    const [state] = manager.list()
+    expect(state.sourceIds).toEqual(['a.example.com', 'local-b'])
+    expect(state.lastError).toBeNull()
+    expect(state.lastSyncAt).toBe(entry.time)
+  })
+
+  it('已有书源不在第一页时也按已有书源合并', async () => {
+    const others = Array.from({ length: 600 }, (_, i) => storedSource({ sourceId: `other-${i}`, name: `其他 ${i}` }, `db-${i}`))
+    sources = [...others, ...sources]
+    subscriptionBody = JSON.stringify([
+      legadoSource('书源 B', 'https://b.example.com', 'https://b.example.com/search?q={{key}}')
+    ])
+    const manager = createManager()
+    const subscription = manager.add({ url: `${baseUrl}/subscription.json` })
+
+    const entry = await manager.refresh(subscription.id)
+
+    expect(entry.added).toEqual([])
+    expect(entry.updated.map(item => item.name)).toEqual(['书源 B'])
+    expect(imports.flat()[0].source).toMatchObject({ sourceId: 'local-b', enabled: false, weight: 5, group: '我的' })
+  })
+
+  it('再次刷新时跳过未变化的书源，并记录上游删除的书源', async () => {
+    subscriptionBody = JSON.stringify([
+      legadoSource('书源 A', 'https://a.example.com', 'https://a.example.com/search?q={{key}}'),
+      legadoSource('书源 B', 'https://b.example.com', 'https://b.example.com/search?q={{key}}')
+    ])
+    const manager = createManager()
+    const subscription = manager.add({ url: `${baseUrl}/subscription.json` })
+    const first = await manager.refresh(subscription.id)
+
+    subscriptionBody = JSON.stringify([
+      legadoSource('书源 A', 'https://a.example.com', 'https://a.example.com/search?q={{key}}'),
+      legadoSource('书源 C', 'https://c.example.com', 'https://c.example.com/search?q={{key}}')
+    ])
+    imports = []
+    const second = await manager.refresh(subscription.id)
+
+    expect(second.added).toEqual(['书源 C'])
+    expect(second.updated).toEqual([])
+    expect(second.unchanged).toBe(1)
+    expect(second.removed).toEqual(['书源 B'])
+    expect(imports.flat().map(item => item.source.sourceId)).toEqual(['c.example.com'])
+    // 上游删除的书源只记录，不会从后端删除
+    expect(sources.some(source => source.sourceId === 'local-b')).toBe(true)
+
+    expect(manager.logs(subscription.id).map(item => item.id)).toEqual([second.id, first.id])
+    const saved = JSON.parse(fs.readFileSync(path.join(storeDir, 'subscriptions.json'), 'utf-8'))
+    expect(saved.logs).toHaveLength(2)
+  })
+
+  it('记录导入失败和无效的书源', async () => {
+    subscriptionBody = JSON.stringify([
+      legadoSource('书源 A', 'https://a.example.com', 'https://a.example.com/search?q={{key}}'),
+      { bookSourceName: '缺少地址' }
+    ])
+    rejected = new Set(['a.example.com'])
+    const manager = createManager()
+    const subscription = manager.add({ url: `${baseUrl}/subscription.json` })
+
+    const entry = await manager.refresh(subscription.id)
+
+    expect(entry.added).toEqual([])
+    expect(entry.failed).toEqual([{ name: '书源 A', message: '保存失败' }])
+    expect(entry.invalid).toEqual([{ index: 2, name: '缺少地址', message: '缺少 bookSourceUrl' }])
+    expect(manager.list()[0].lastError).toBe('1 个书源导入失败')
+  })
+
+  it('订阅地址无法访问时记录错误', async () => {
+    const manager = createManager()
+    const subscription = manager.add({ url: `${baseUrl}/missing.json` })
+
+    const entry = await manager.refresh(subscription.id)
+
+    expect(entry.error).toBe('请求失败: HTTP 404')
+    expect(manager.list()[0].lastError).toBe(entry.error)
+    expect(imports).toEqual([])
+  })
+})
@@ -0,0 +1,301 @@
+import fs from 'fs'
+import log from 'electron-log'
+import { parseSourceJson, diffSources } from '../src/utils/legado'
+import type { BookSource, BookSourceRules, Page, SourceImportResult } from '../src/api/types'
+
+// 书源订阅：定时拉取订阅地址中的书源，按书源地址合并到后端
+
+export interface SourceSubscription {
+  id: string
+  name: string
+  url: string
+  enabled: boolean
+  // 刷新间隔（小时）
+  intervalHours: number
+  lastSyncAt: string | null
+  lastError: string | null
+  // 最近一次刷新得到的书源 ID，用于发现上游删除的书源
+  sourceIds: string[]
+  createdAt: string
+}
+
+export type SourceSubscriptionState = SourceSubscription & { refreshing: boolean }
+
+export type SourceSubscriptionInput = Pick<SourceSubscription, 'url'> &
+  Partial<Pick<SourceSubscription, 'name' | 'enabled' | 'intervalHours'>>
+
+// 每次刷新的变更记录
+export interface SubscriptionLogEntry {
+  id: string
+  subscriptionId: string
+  time: string
+  added: string[]
+  updated: Array<{ name: string; changes: string }>
+  unchanged: number
+  // 订阅中已不存在的书源（不会自动删除）
+  removed: string[]
+  invalid: Array<{ index: number; name: string; message: string }>
+  failed: Array<{ name: string; message: string }>
+  error: string | null
+}
+
+interface SubscriptionData {
+  subscriptions: SourceSubscription[]
+  logs: SubscriptionLogEntry[]
+}
+
+export interface SubscriptionManagerOptions {
+  storePath: string
+  fetchText: (url: string) => Promise<string>
+  // 后端地址，未就绪时为 null
+  backendUrl: () => string | null
+  onChange?: (subscriptions: SourceSubscriptionState[]) => void
+}
+
+const DEFAULT_INTERVAL_HOURS = 24
+const MIN_INTERVAL_HOURS = 1
+const CHECK_INTERVAL = 10 * 60 * 1000
+const LOGS_PER_SUBSCRIPTION = 20
+const IMPORT_BATCH_SIZE = 100
+const LIST_PAGE_SIZE = 500
+
+const errorText = (error: unknown) => (error instanceof Error ? error.message : String(error))
+
+export function createSubscriptionManager(options: SubscriptionManagerOptions) {
+  let data: SubscriptionData = load()
+  let timer: ReturnType<typeof setInterval> | null = null
+  // 同一时间只刷新一个订阅，避免并发写入书源
+  let queue: Promise<unknown> = Promise.resolve()
+  const refreshing = new Set<string>()
+
+  function load(): SubscriptionData {
+    try {
+      if (fs.existsSync(options.storePath)) {
+        const parsed = JSON.parse(fs.readFileSync(options.storePath, 'utf-8'))
+        return {
+          subscriptions: Array.isArray(parsed.subscriptions) ? parsed.subscriptions : [],
+          logs: Array.isArray(parsed.logs) ? parsed.logs : []
+        }
+      }
+    } catch (error) {
+      log.warn('加载书源订阅失败:', error)
+    }
+    return { subscriptions: [], logs: [] }
+  }
+
+  function save() {
+    try {
+      fs.writeFileSync(options.storePath, JSON.stringify(data, null, 2))
+    } catch (error) {
+      log.warn('保存书源订阅失败:', error)
+    }
+    options.onChange?.(list())
+  }
+
+  function list(): SourceSubscriptionState[] {
+    return data.subscriptions.map(subscription => ({ ...subscription, refreshing: refreshing.has(subscription.id) }))
+  }
+
+  function find(id: string) {
+    const subscription = data.subscriptions.find(item => item.id === id)
+    if (!subscription) throw new Error('订阅不存在')
+    return subscription
+  }
+
+  function sanitizeInterval(hours: unknown) {
+    const value = Number(hours)
+    return Number.isFinite(value) && value >= MIN_INTERVAL_HOURS ? value : DEFAULT_INTERVAL_HOURS
+  }
+
+  function add(input: SourceSubscriptionInput) {
+    const url = input.url?.trim()
+    if (!url || !/^https?:\/\//i.test(url)) throw new Error('订阅地址必须是 http/https 地址')
+    if (data.subscriptions.some(item => item.url === url)) throw new Error('该订阅地址已存在')
+
+    const subscription: SourceSubscription = {
+      id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+      name: input.name?.trim() || new URL(url).hostname,
+      url,
+      enabled: input.enabled ?? true,
+      intervalHours: sanitizeInterval(input.intervalHours),
+      lastSyncAt: null,
+      lastError: null,
+      sourceIds: [],
+      createdAt: new Date().toISOString()
+    }
+    data.subscriptions.push(subscription)
+    save()
+    return subscription
+  }
+
+  function update(id: string, patch: Partial<SourceSubscriptionInput>) {
+    const subscription = find(id)
+    if (patch.name !== undefined) subscription.name = patch.name.trim() || subscription.name
+    if (patch.enabled !== undefined) subscription.enabled = patch.enabled
+    if (patch.intervalHours !== undefined) subscription.intervalHours = sanitizeInterval(patch.intervalHours)
+    save()
+    return subscription
+  }
+
+  function remove(id: string) {
+    data.subscriptions = data.subscriptions.filter(item => item.id !== id)
+    data.logs = data.logs.filter(entry => entry.subscriptionId !== id)
+    save()
+  }
+
+  function logs(id: string) {
+    return data.logs.filter(entry => entry.subscriptionId === id)
+  }
+
+  async function backend<T>(path: string, init?: RequestInit): Promise<T> {
+    const baseUrl = options.backendUrl()
+    if (!baseUrl) throw new Error('后端未就绪')
+
+    const response = await fetch(`${baseUrl}${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...init?.headers }
+    })
+    const body = await response.json().catch(() => null)
+    if (!response.ok || !body?.success) {
+      throw new Error(body?.message || `请求失败: HTTP ${response.status}`)
+    }
+    return body.data as T
+  }
+
+  // 逐页读取后端的全部书源，漏掉的已有书源会被当成新书源覆盖导入
+  async function fetchAllSources() {
+    const sources: BookSource[] = []
+    for (let page = 0; ; page++) {
+      const result = await backend<Page<BookSource>>(`/api/sources?page=${page}&size=${LIST_PAGE_SIZE}`)
+      sources.push(...result.content)
+      if (result.last || result.content.length === 0) break
+    }
+    return sources
+  }
+
+  /**
+   * 刷新订阅
+   *
+   * 按书源地址合并：新书源直接导入，已有书源只更新规则等内容，
+   * 保留本地的启用状态、权重和分组；订阅中已删除的书源只记录不删除。
+   */
+  async function runRefresh(subscription: SourceSubscription): Promise<SubscriptionLogEntry> {
+    const entry: SubscriptionLogEntry = {
+      id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+      subscriptionId: subscription.id,
+      time: new Date().toISOString(),
+      added: [],
+      updated: [],
+      unchanged: 0,
+      removed: [],
+      invalid: [],
+      failed: [],
+      error: null
+    }
+
+    try {
+      const raws = parseSourceJson(await options.fetchText(subscription.url))
+      const [existing, rules] = await Promise.all([
+        fetchAllSources(),
+        backend<BookSourceRules[]>('/api/sources/rules')
+      ])
+      const candidates = diffSources(raws, existing, rules, { keepLocalFields: true })
+      const existingNames = new Map(existing.map(source => [source.sourceId, source.name]))
+
+      const changed = candidates.filter(candidate => candidate.status === 'new' || candidate.status === 'updated')
+      const failed = new Map<string, string>()
+      for (let i = 0; i < changed.length; i += IMPORT_BATCH_SIZE) {
+        const batch = changed.slice(i, i + IMPORT_BATCH_SIZE)
+        try {
+          const result = await backend<SourceImportResult>('/api/sources/import/batch', {
+            method: 'POST',
+            body: JSON.stringify({ sources: batch.map(candidate => candidate.item), overwrite: true })
+          })
+          for (const failure of result.failed) failed.set(failure.sourceId, failure.message)
+        } catch (error) {
+          for (const candidate of batch) failed.set(candidate.item!.source.sourceId, errorText(error))
+        }
+      }
+
+      const sourceIds: string[] = []
+      for (const candidate of candidates) {
+        if (candidate.status === 'invalid' || !candidate.item) {
+          entry.invalid.push({ index: candidate.index, name: candidate.name, message: candidate.message })
+          continue
+        }
+        const sourceId = candidate.item.source.sourceId
+        sourceIds.push(sourceId)
+        const failure = failed.get(sourceId)
+        if (failure) entry.failed.push({ name: candidate.name, message: failure })
+        else if (candidate.status === 'new') entry.added.push(candidate.name)
+        else if (candidate.status === 'updated') entry.updated.push({ name: candidate.name, changes: candidate.message })
+        else entry.unchanged++
+      }
+
+      const current = new Set(sourceIds)
+      entry.removed = subscription.sourceIds
+        .filter(sourceId => !current.has(sourceId))
+        .map(sourceId => existingNames.get(sourceId) || sourceId)
+
+      subscription.sourceIds = sourceIds
+      subscription.lastError = entry.failed.length > 0 ? `${entry.failed.length} 个书源导入失败` : null
+    } catch (error) {
+      entry.error = errorText(error)
+      subscription.lastError = entry.error
+      log.warn('刷新书源订阅失败:', subscription.url, error)
+    }
+
+    subscription.lastSyncAt = entry.time
+    // 刷新期间订阅已被删除
+    if (!data.subscriptions.includes(subscription)) return entry
+    const others = data.logs.filter(item => item.subscriptionId !== subscription.id)
+    const own = [entry, ...logs(subscription.id)].slice(0, LOGS_PER_SUBSCRIPTION)
+    data.logs = [...others, ...own]
+    return entry
+  }
+
+  function refresh(id: string): Promise<SubscriptionLogEntry> {
+    const subscription = find(id)
+    const task = queue.then(async () => {
+      refreshing.add(id)
+      options.onChange?.(list())
+      try {
+        return await runRefresh(subscription)
+      } finally {
+        refreshing.delete(id)
+        save()
+      }
+    })
+    queue = task.catch(() => {})
+    return task
+  }
+
+  function isDue(subscription: SourceSubscription, now: number) {
+    if (!subscription.enabled || refreshing.has(subscription.id)) return false
+    if (!subscription.lastSyncAt) return true
+    return now - new Date(subscription.lastSyncAt).getTime() >= subscription.intervalHours * 3600 * 1000
+  }
+
+  function refreshDue() {
+    if (!options.backendUrl()) return
+    const now = Date.now()
+    for (const subscription of data.subscriptions) {
+      if (isDue(subscription, now)) {
+        refresh(subscription.id).catch(error => log.warn('刷新书源订阅失败:', error))
+      }
+    }
+  }
+
+  // 后端就绪后立即检查一次，之后定时检查
+  function start() {
+    refreshDue()
+    if (!timer) timer = setInterval(refreshDue, CHECK_INTERVAL)
+  }
+
+  function stop() {
+    if (timer) clearInterval(timer)
+    timer = null
+  }
+
+  return { list, add, update, remove, logs, refresh, start, stop }
+}
@@ -0,0 +1,88 @@
+import { get, post, put, del, type RequestOptions } from './client'
+import type {
+  Book,
+  BookStats,
+  Page,
+  PageParams,
+  AddBookPayload,
+  UpdateBookPayload,
+  UpdateProgressPayload,
+  ChangeSourcePayload,
+  ChapterPage,
+  ChapterContent,
+  ChapterPreview,
+  OnlineSearchResult,
+  OnlineBookInfo
+} from './types'
+
+export const booksApi = {
+  // ==================== 书架 ====================
+
+  list: (params: PageParams = {}, options?: RequestOptions) =>
+    get<Page<Book>>('/api/books', params, options),
+
+  get: (id: string, options?: RequestOptions) =>
+    get<Book>(`/api/books/${id}`, undefined, options),
+
+  // 在书架中按书名/作者搜索
+  search: (keyword: string, params: PageParams = {}, options?: RequestOptions) =>
+    get<Page<Book>>('/api/books/search', { keyword, ...params }, options),
+
+  recent: (limit = 10, options?: RequestOptions) =>
+    get<Book[]>('/api/books/recent', { limit }, options),
+
+  reading: (params: PageParams = {}, options?: RequestOptions) =>
+    get<Page<Book>>('/api/books/reading', params, options),
+
+  finished: (params: PageParams = {}, options?: RequestOptions) =>
+    get<Page<Book>>('/api/books/finished', params, options),
+
+  stats: (options?: RequestOptions) =>
+    get<BookStats>('/api/books/stats', undefined, options),
+
+  add: (payload: AddBookPayload, options?: RequestOptions) =>
+    post<Book>('/api/books', payload, options),
+
+  import: (file: File, sourceId?: string, options?: RequestOptions) => {
+    const form = new FormData()
+    form.append('file', file)
+    if (sourceId) form.append('sourceId', sourceId)
+    return post<Book>('/api/books/import', form, options)
+  },
+
+  update: (id: string, payload: UpdateBookPayload, options?: RequestOptions) =>
+    put<Book>(`/api/books/${id}`, payload, options),
+
+  updateProgress: (id: string, payload: UpdateProgressPayload, options?: RequestOptions) =>
+    put<Book>(`/api/books/${id}/progress`, payload, options),
+
+  changeSource: (id: string, payload: ChangeSourcePayload, options?: RequestOptions) =>
+    put<Book>(`/api/books/${id}/source`, payload, options),
+
+  remove: (id: string, options?: RequestOptions) =>
+    del<void>(`/api/books/${id}`, undefined, options),
+
+  removeMany: (ids: string[], options?: RequestOptions) =>
+    del<{ deleted: number }>('/api/books', { ids }, options),
+
+  // ==================== 章节 ====================
+
+  chapters: (id: string, params: PageParams = {}, options?: RequestOptions) =>
+    get<ChapterPage>(`/api/books/${id}/chapters`, params, options),
+
+  // 离线下载时 updateProgress 传 false，不记录为阅读进度
+  chapterContent: (id: string, chapterIndex: number, updateProgress = true, options?: RequestOptions) =>
+    get<ChapterContent>(`/api/books/${id}/chapters/${chapterIndex}/content`, { updateProgress }, options),
+
+  // ==================== 在线（不入库） ====================
+
+  // 在书源中搜索书籍，不指定书源时搜索所有可用书源
+  searchOnline: (keyword: string, sourceId?: string, options?: RequestOptions) =>
+    post<OnlineSearchResult[]>('/api/books/search', { keyword, sourceId }, options),
+
+  previewInfo: (bookUrl: string, sourceId: string, options?: RequestOptions) =>
+    post<OnlineBookInfo>('/api/books/info', { bookUrl, sourceId }, options),
+
+  previewChapters: (bookUrl: string, sourceId: string, options?: RequestOptions) =>
+    post<ChapterPreview>('/api/books/chapters/preview', { bookUrl, sourceId }, options)
+}
@@ -0,0 +1,121 @@
+import axios, { type AxiosError, type AxiosRequestConfig } from 'axios'
+import type { ApiResponse } from './types'
+
+// 与 electron/main.ts 中的默认端口保持一致
+const DEFAULT_BACKEND_PORT = 18080
+
+// 开发模式下页面由 Vite 提供，/api 走代理；打包后从 file:// 加载，需要直接访问后端端口
+const resolveBaseURL = (port: number) => {
+  return window.location.protocol === 'file:' ? `http://127.0.0.1:${port}` : ''
+}
+
+export const http = axios.create({
+  baseURL: resolveBaseURL(DEFAULT_BACKEND_PORT),
+  timeout: 30000
+})
+
+// 后端就绪后按实际端口更新（端口可在设置中修改）
+export const setBackendPort = (port: number) => {
+  http.defaults.baseURL = resolveBaseURL(port)
+}
+
+// WebSocket 地址，与接口使用同一个后端
+export const resolveWebSocketURL = (path: string) => {
+  const base = http.defaults.baseURL || `${window.location.protocol}//${window.location.host}`
+  return base.replace(/^http/, 'ws') + path
+}
+
+export type ApiErrorKind = 'cancelled' | 'timeout' | 'network' | 'http' | 'business'
+
+/**
+ * 统一的接口错误
+ *
+ * message 优先使用后端 ApiResponse 中的 message，可以直接展示给用户。
+ */
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind
+  readonly code?: string
+  readonly status?: number
+
+  constructor(message: string, kind: ApiErrorKind, code?: string, status?: number) {
+    super(message)
+    this.name = 'ApiError'
+    this.kind = kind
+    this.code = code
+    this.status = status
+  }
+}
+
+export const isCancelled = (error: unknown): boolean => {
+  return error instanceof ApiError && error.kind === 'cancelled'
+}
+
+// 取出可展示的错误信息
+export const errorMessage = (error: unknown, fallback: string): string => {
+  return error instanceof ApiError ? error.message : fallback
+}
+
+const toApiError = (error: unknown): ApiError => {
+  if (error instanceof ApiError) return error
+  if (axios.isCancel(error)) return new ApiError('请求已取消', 'cancelled')
+
+  const axiosError = error as AxiosError<Partial<ApiResponse<unknown>>>
+  if (axiosError.code === 'ECONNABORTED' || axiosError.code === 'ETIMEDOUT') {
+    return new ApiError('请求超时', 'timeout', axiosError.code)
+  }
+  if (!axiosError.response) {
+    return new ApiError('无法连接到后端服务', 'network', axiosError.code)
+  }
+
+  const { status, data } = axiosError.response
+  return new ApiError(data?.message || `请求失败（${status}）`, 'http', data?.code, status)
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal
+  timeout?: number
+  responseType?: 'json' | 'text' | 'blob'
+}
+
+/**
+ * 发送请求并解包 ApiResponse，返回其中的 data
+ *
+ * 导出等接口直接返回文件内容，没有 ApiResponse 包装，原样返回。
+ */
+export const request = async <T>(config: AxiosRequestConfig): Promise<T> => {
+  try {
+    const res = await http.request(config)
+    const body = res.data
+
+    if (body && typeof body === 'object' && 'success' in body && 'timestamp' in body) {
+      const response = body as ApiResponse<T>
+      if (!response.success) {
+        throw new ApiError(response.message || '请求失败', 'business', response.code, res.status)
+      }
+      return response.data
+    }
+    return body as T
+  } catch (error) {
+    throw toApiError(error)
+  }
+}
+
+export const get = <T>(url: string, params?: object, options?: RequestOptions) => {
+  return request<T>({ method: 'get', url, params, ...options })
+}
+
+export const post = <T>(url: string, data?: unknown, options?: RequestOptions) => {
+  return request<T>({ method: 'post', url, data, ...options })
+}
+
+export const put = <T>(url: string, data?: unknown, options?: RequestOptions) => {
+  return request<T>({ method: 'put', url, data, ...options })
+}
+
+export const patch = <T>(url: string, data?: unknown, options?: RequestOptions) => {
+  return request<T>({ method: 'patch', url, data, ...options })
+}
+
+export const del = <T>(url: string, data?: unknown, options?: RequestOptions) => {
+  return request<T>({ method: 'delete', url, data, ...options })
+}
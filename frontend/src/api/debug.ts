@@ -0,0 +1,141 @@
+import { get, post, put, del, type RequestOptions } from './client'
+import type {
+  SystemInfo,
+  TestUrlPayload,
+  TestUrlResult,
+  DebugRulePayload,
+  DebugRuleResult,
+  BatchTestResult,
+  ExecuteJsResult,
+  ValidateJsResult,
+  LogLevel,
+  DebugSession,
+  DebugStageName,
+  DebugStagePayload,
+  DebugStageResult,
+  DebugLogEntry,
+  DebugExecutePayload,
+  DebugExecuteResult,
+  DebugTestRuleType,
+  DebugTestRuleResult,
+  HttpExchange,
+  SourceFixture,
+  SourceFixturePayload,
+  FixtureReport,
+  RunFixturesPayload
+} from './types'
+
+export const debugApi = {
+  systemInfo: (options?: RequestOptions) =>
+    get<SystemInfo>('/api/debug/system/info', undefined, options),
+
+  // ==================== 缓存 ====================
+
+  cacheStats: (options?: RequestOptions) =>
+    get<Record<string, unknown>>('/api/debug/cache/stats', undefined, options),
+
+  cacheNames: (options?: RequestOptions) =>
+    get<string[]>('/api/debug/cache/names', undefined, options),
+
+  clearCache: (cacheName: string, options?: RequestOptions) =>
+    del<void>(`/api/debug/cache/${cacheName}`, undefined, options),
+
+  clearAllCaches: (options?: RequestOptions) =>
+    del<Record<string, unknown>>('/api/debug/cache', undefined, options),
+
+  // ==================== 书源调试 ====================
+
+  testUrl: (payload: TestUrlPayload, options?: RequestOptions) =>
+    post<TestUrlResult>('/api/debug/source/test-url', { timeout: 10, ...payload }, options),
+
+  debugRule: (payload: DebugRulePayload, options?: RequestOptions) =>
+    post<DebugRuleResult>('/api/debug/source/debug-rule', payload, options),
+
+  batchTest: (sourceIds?: string[], options?: RequestOptions) =>
+    post<BatchTestResult[]>('/api/debug/source/batch-test', { sourceIds }, options),
+
+  // ==================== 调试会话 ====================
+
+  createSession: (sourceId: string, options?: RequestOptions) =>
+    post<DebugSession>('/api/debug/session', { sourceId }, options),
+
+  deleteSession: (sessionId: string, options?: RequestOptions) =>
+    del<void>(`/api/debug/session/${sessionId}`, undefined, options),
+
+  runStage: (sessionId: string, stage: DebugStageName, payload: DebugStagePayload, options?: RequestOptions) =>
+    post<DebugStageResult>(`/api/debug/session/${sessionId}/stages/${stage}`, payload, options),
+
+  executeScript: (sessionId: string, payload: DebugExecutePayload, options?: RequestOptions) =>
+    post<DebugExecuteResult>(`/api/debug/session/${sessionId}/execute`, payload, options),
+
+  sessionLogs: (sessionId: string, options?: RequestOptions) =>
+    get<DebugLogEntry[]>(`/api/debug/session/${sessionId}/logs`, undefined, options),
+
+  clearSessionLogs: (sessionId: string, options?: RequestOptions) =>
+    del<void>(`/api/debug/session/${sessionId}/logs`, undefined, options),
+
+  sessionRequests: (sessionId: string, options?: RequestOptions) =>
+    get<HttpExchange[]>(`/api/debug/session/${sessionId}/requests`, undefined, options),
+
+  clearSessionRequests: (sessionId: string, options?: RequestOptions) =>
+    del<void>(`/api/debug/session/${sessionId}/requests`, undefined, options),
+
+  testSessionRule: (
+    sessionId: string,
+    payload: { ruleType: DebugTestRuleType; rule: string; html: string },
+    options?: RequestOptions
+  ) => post<DebugTestRuleResult>(`/api/debug/session/${sessionId}/test-rule`, payload, options),
+
+  // ==================== 测试用例 ====================
+
+  fixtures: (sourceId: string, options?: RequestOptions) =>
+    get<SourceFixture[]>('/api/debug/fixtures', { sourceId }, options),
+
+  createFixture: (payload: SourceFixturePayload, options?: RequestOptions) =>
+    post<SourceFixture>('/api/debug/fixtures', payload, options),
+
+  updateFixture: (id: string, payload: { name?: string; expected?: string }, options?: RequestOptions) =>
+    put<SourceFixture>(`/api/debug/fixtures/${id}`, payload, options),
+
+  deleteFixture: (id: string, options?: RequestOptions) =>
+    del<void>(`/api/debug/fixtures/${id}`, undefined, options),
+
+  runFixtures: (payload: RunFixturesPayload, options?: RequestOptions) =>
+    post<FixtureReport[]>('/api/debug/fixtures/run', payload, options),
+
+  // ==================== JavaScript ====================
+
+  executeJs: (code: string, context?: Record<string, unknown>, options?: RequestOptions) =>
+    post<ExecuteJsResult>('/api/debug/js/execute', { code, context }, options),
+
+  validateJs: (code: string, options?: RequestOptions) =>
+    post<ValidateJsResult>('/api/debug/js/validate', { code }, options),
+
+  // ==================== 偏好设置 ====================
+
+  preferences: (options?: RequestOptions) =>
+    get<Record<string, string>>('/api/debug/preferences', undefined, options),
+
+  getPreference: (key: string, options?: RequestOptions) =>
+    get<string | null>(`/api/debug/preferences/${key}`, undefined, options),
+
+  setPreference: (key: string, value: string, options?: RequestOptions) =>
+    put<void>(`/api/debug/preferences/${key}`, { value }, options),
+
+  removePreference: (key: string, options?: RequestOptions) =>
+    del<void>(`/api/debug/preferences/${key}`, undefined, options),
+
+  exportPreferences: (options?: RequestOptions) =>
+    get<string>('/api/debug/preferences/export', undefined, { ...options, responseType: 'text' }),
+
+  importPreferences: (json: string, options?: RequestOptions) =>
+    post<void>('/api/debug/preferences/import', { json }, options),
+
+  resetPreferences: (options?: RequestOptions) =>
+    del<void>('/api/debug/preferences', undefined, options),
+
+  // ==================== 日志 ====================
+
+  logs: (lines = 100, level: LogLevel = 'INFO', options?: RequestOptions) =>
+    get<string[]>('/api/debug/logs', { lines, level }, options)
+}
@@ -0,0 +1,8 @@
+import { get, type RequestOptions } from './client'
+import type { SourceStats } from './types'
+
+export const healthApi = {
+  // 书源总数、启用数和检查可用数
+  sourceMetrics: (options?: RequestOptions) =>
+    get<SourceStats>('/api/health/metrics/sources', undefined, options)
+}
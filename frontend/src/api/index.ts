@@ -0,0 +1,7 @@
+export * from './client'
+export * from './types'
+export { booksApi } from './books'
+export { sourcesApi } from './sources'
+export { debugApi } from './debug'
+export { securityApi } from './security'
+export { healthApi } from './health'
@@ -0,0 +1,35 @@
+import { get, post, put, del, type RequestOptions } from './client'
+import type {
+  SecurityLevel,
+  SecurityPolicyInfo,
+  SecurityLevelInfo,
+  PermissionCheckResult,
+  SecurityEvent,
+  SecurityEventQuery,
+  SourceCheckResult,
+  Page
+} from './types'
+
+export const securityApi = {
+  getPolicyLevel: (options?: RequestOptions) =>
+    get<SecurityPolicyInfo>('/api/security/policy/level', undefined, options),
+
+  setPolicyLevel: (level: SecurityLevel, options?: RequestOptions) =>
+    put<void>('/api/security/policy/level', { level }, options),
+
+  levels: (options?: RequestOptions) =>
+    get<SecurityLevelInfo[]>('/api/security/policy/levels', undefined, options),
+
+  checkPermission: (action: string, resource?: string, options?: RequestOptions) =>
+    post<PermissionCheckResult>('/api/security/policy/check', { action, resource }, options),
+
+  // 按当前安全等级检查书源地址和规则代码
+  checkSource: (sourceId: string, options?: RequestOptions) =>
+    post<SourceCheckResult>('/api/security/policy/check-source', { sourceId }, options),
+
+  events: (query: SecurityEventQuery = {}, options?: RequestOptions) =>
+    get<Page<SecurityEvent>>('/api/security/events', query, options),
+
+  clearEvents: (options?: RequestOptions) =>
+    del<void>('/api/security/events', undefined, options)
+}
@@ -0,0 +1,97 @@
+import { get, post, put, patch, del, type RequestOptions } from './client'
+import type {
+  BookSource,
+  SourceStats,
+  Page,
+  PageParams,
+  AddSourcePayload,
+  UpdateSourcePayload,
+  BookSourceRules,
+  SourceImportItem,
+  SourceImportResult
+} from './types'
+
+// 检查一个书源会依次请求搜索、详情、目录和正文，每个请求最长 60 秒
+const CHECK_TIMEOUT = 5 * 60 * 1000
+
+// 书源接口的路径参数均为 sourceId，而不是数据库主键 id
+export const sourcesApi = {
+  list: (params: PageParams = {}, options?: RequestOptions) =>
+    get<Page<BookSource>>('/api/sources', params, options),
+
+  enabled: (options?: RequestOptions) =>
+    get<BookSource[]>('/api/sources/enabled', undefined, options),
+
+  // 已启用且最近检查可用
+  available: (options?: RequestOptions) =>
+    get<BookSource[]>('/api/sources/available', undefined, options),
+
+  get: (sourceId: string, options?: RequestOptions) =>
+    get<BookSource>(`/api/sources/${sourceId}`, undefined, options),
+
+  search: (keyword: string, params: PageParams = {}, options?: RequestOptions) =>
+    get<Page<BookSource>>('/api/sources/search', { keyword, ...params }, options),
+
+  stats: (options?: RequestOptions) =>
+    get<SourceStats>('/api/sources/stats', undefined, options),
+
+  add: (payload: AddSourcePayload, options?: RequestOptions) =>
+    post<BookSource>('/api/sources', payload, options),
+
+  // 导入单个书源文件（JSON）
+  importFile: (file: File, options?: RequestOptions) => {
+    const form = new FormData()
+    form.append('file', file)
+    return post<BookSource>('/api/sources/import', form, options)
+  },
+
+  // 逐个导入，返回每个书源的结果；overwrite 时覆盖 sourceId 相同的书源
+  importBatch: (sources: SourceImportItem[], overwrite = false, options?: RequestOptions) =>
+    post<SourceImportResult>('/api/sources/import/batch', { sources, overwrite }, options),
+
+  rules: (options?: RequestOptions) =>
+    get<BookSourceRules[]>('/api/sources/rules', undefined, options),
+
+  // 没有规则时返回 null
+  sourceRules: (sourceId: string, options?: RequestOptions) =>
+    get<BookSourceRules | null>(`/api/sources/${sourceId}/rules`, undefined, options),
+
+  updateRules: (sourceId: string, rules: Omit<BookSourceRules, 'id'>, options?: RequestOptions) =>
+    put<BookSourceRules>(`/api/sources/${sourceId}/rules`, rules, options),
+
+  update: (sourceId: string, payload: UpdateSourcePayload, options?: RequestOptions) =>
+    put<BookSource>(`/api/sources/${sourceId}`, payload, options),
+
+  toggle: (sourceId: string, enabled: boolean, options?: RequestOptions) =>
+    patch<BookSource>(`/api/sources/${sourceId}/toggle`, { enabled }, options),
+
+  updateWeight: (sourceId: string, weight: number, options?: RequestOptions) =>
+    patch<void>(`/api/sources/${sourceId}/weight`, { weight }, options),
+
+  // 只修改分组，空字符串表示清空分组
+  updateGroups: (groups: Record<string, string>, options?: RequestOptions) =>
+    patch<BookSource[]>('/api/sources/groups', { groups }, options),
+
+  remove: (sourceId: string, options?: RequestOptions) =>
+    del<void>(`/api/sources/${sourceId}`, undefined, options),
+
+  removeMany: (sourceIds: string[], options?: RequestOptions) =>
+    del<{ deleted: number; sourceIds: string[] }>('/api/sources', { sourceIds }, options),
+
+  check: (sourceId: string, options?: RequestOptions) =>
+    post<BookSource>(`/api/sources/${sourceId}/check`, undefined, { timeout: CHECK_TIMEOUT, ...options }),
+
+  // 不指定书源时检查超过一天未检查的书源，数量未知，不设超时
+  checkMany: (sourceIds?: string[], options?: RequestOptions) =>
+    post<BookSource[]>('/api/sources/check/batch', { sourceIds }, {
+      timeout: sourceIds?.length ? CHECK_TIMEOUT * sourceIds.length : 0,
+      ...options
+    }),
+
+  // 导出接口直接返回 JSON 文本
+  export: (sourceId: string, options?: RequestOptions) =>
+    get<string>(`/api/sources/${sourceId}/export`, undefined, { ...options, responseType: 'text' }),
+
+  exportAll: (options?: RequestOptions) =>
+    get<string>('/api/sources/export', undefined, { ...options, responseType: 'text' })
+}
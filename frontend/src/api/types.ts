@@ -0,0 +1,616 @@
+// 与后端 model / controller 对应的类型定义
+// 后端时间字段统一格式为 yyyy-MM-dd HH:mm:ss
+
+// ==================== 通用 ====================
+
+// 后端统一响应格式（BookController.ApiResponse）
+export interface ApiResponse<T> {
+  success: boolean
+  code?: string
+  message?: string
+  data: T
+  timestamp: string
+}
+
+// Spring Data 分页结果
+export interface Page<T> {
+  content: T[]
+  totalElements: number
+  totalPages: number
+  number: number
+  size: number
+  first: boolean
+  last: boolean
+  empty: boolean
+}
+
+export interface PageParams {
+  page?: number
+  size?: number
+}
+
+// ==================== 书籍 ====================
+
+export interface Book {
+  id: string
+  name: string
+  author: string
+  coverUrl?: string | null
+  intro?: string | null
+  bookUrl: string
+  // 当前书源的 sourceId
+  origin?: string | null
+  chapterCount: number
+  currentChapter: number
+  // 章节内进度（0-100）
+  progress: number
+  // 整体进度，如 "12.5%"
+  progressPercent: string
+  lastReadAt?: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export interface BookChapter {
+  id?: string | null
+  bookId: string
+  index: number
+  title: string
+  url: string
+  isVip: boolean
+  content?: string | null
+  contentCachedAt?: string | null
+  createdAt: string
+}
+
+export interface BookStats {
+  total: number
+  readCount: number
+  finishedCount: number
+}
+
+export interface AddBookPayload {
+  name: string
+  author?: string
+  coverUrl?: string | null
+  intro?: string | null
+  bookUrl: string
+  sourceId?: string
+}
+
+export interface UpdateBookPayload {
+  name?: string
+  author?: string
+  coverUrl?: string
+  intro?: string
+}
+
+export interface UpdateProgressPayload {
+  chapterIndex: number
+  chapterUrl?: string
+}
+
+export interface ChangeSourcePayload {
+  sourceId: string
+  bookUrl: string
+  chapterIndex?: number
+  chapterCount?: number
+}
+
+export interface ChapterPage {
+  chapters: BookChapter[]
+  total: number
+  page: number
+  size: number
+  book: Book
+}
+
+export interface ChapterContent {
+  content: string
+  chapter: BookChapter
+  book: Book
+}
+
+export interface ChapterPreview {
+  chapters: BookChapter[]
+  total: number
+}
+
+// 书源搜索返回的原始结果，字段由书源规则决定
+export interface OnlineSearchResult {
+  name: string
+  author?: string
+  coverUrl?: string
+  bookUrl: string
+  intro?: string
+  latestChapter?: string
+  sourceId: string
+  sourceName: string
+  [key: string]: unknown
+}
+
+// 书籍详情，字段由书源规则决定
+export interface OnlineBookInfo {
+  name?: string
+  author?: string
+  coverUrl?: string
+  intro?: string
+  kind?: string
+  latestChapter?: string
+  [key: string]: unknown
+}
+
+// ==================== 书源 ====================
+
+export type SourceCheckStatus = 'success' | 'failed' | 'unknown'
+
+// 检查失败的阶段，没有搜索规则的书源只检查首页（site）
+export type SourceCheckStage = 'site' | 'search' | 'bookInfo' | 'toc' | 'content'
+
+export interface BookSource {
+  // 数据库主键（UUID），接口路径中使用的是 sourceId
+  id: string
+  sourceId: string
+  name: string
+  icon?: string | null
+  url?: string | null
+  author?: string | null
+  // 多个分组用逗号分隔
+  group?: string | null
+  enabled: boolean
+  weight: number
+  // 安全评级 1-5，未评级为空
+  securityRating?: number | null
+  bookSourceRuleId?: string | null
+  lastUsedAt?: string | null
+  lastCheckedAt?: string | null
+  checkStatus?: SourceCheckStatus | null
+  checkMessage?: string | null
+  checkStage?: SourceCheckStage | null
+  // 最近一次检查耗时（毫秒）
+  checkDuration?: number | null
+  createdAt: string
+  updatedAt: string
+  isAvailable: boolean
+}
+
+export interface BookSourceRules {
+  id?: string | null
+  ruleId: string
+  // 搜索
+  searchUrl?: string | null
+  searchList?: string | null
+  searchName?: string | null
+  searchAuthor?: string | null
+  searchCoverUrl?: string | null
+  searchBookUrl?: string | null
+  // 详情
+  bookUrl?: string | null
+  bookInfo?: string | null
+  // 目录
+  chapterList?: string | null
+  chapterName?: string | null
+  chapterUrl?: string | null
+  // 正文
+  contentUrl?: string | null
+  content?: string | null
+  // 请求
+  headers?: string | null
+  charset?: string | null
+  enabled: boolean
+}
+
+export interface SourceStats {
+  total: number
+  enabledCount: number
+  availableCount: number
+}
+
+export interface AddSourcePayload {
+  sourceId: string
+  name: string
+  url?: string
+  author?: string
+  group?: string
+  enabled?: boolean
+  weight?: number
+  securityRating?: number
+}
+
+// 批量导入的书源，rules 不在 BookSource 的 JSON 中，单独传给后端
+export interface SourceImportItem {
+  source: Partial<BookSource> & { sourceId: string; name: string }
+  rules?: Omit<BookSourceRules, 'id'> | null
+}
+
+export interface SourceImportFailure {
+  sourceId: string
+  name: string
+  message: string
+}
+
+export interface SourceImportResult {
+  created: string[]
+  updated: string[]
+  failed: SourceImportFailure[]
+}
+
+export interface UpdateSourcePayload {
+  name?: string
+  url?: string
+  author?: string
+  // 空字符串表示清除分组
+  group?: string
+  enabled?: boolean
+  weight?: number
+  // 0 表示清除评级
+  securityRating?: number
+}
+
+// ==================== 调试 ====================
+
+export interface SystemInfo {
+  timestamp: string
+  javaVersion: string
+  javaHome: string
+  osName: string
+  osVersion: string
+  osArch: string
+  processors: number
+  memory: {
+    max: number
+    total: number
+    free: number
+    used: number
+    usage: string
+  }
+  workingDir: string
+  tempDir: string
+  securityLevel: string
+}
+
+export interface TestUrlPayload {
+  url: string
+  timeout?: number
+  method?: string
+  headers?: Record<string, string>
+  body?: string
+  // 指定响应编码，为空时自动识别
+  charset?: string
+  // 记录到该调试会话的网络面板
+  sessionId?: string
+}
+
+export interface TestUrlResult {
+  success: boolean
+  elapsed?: number
+  error?: string | null
+  url: string
+  exchange?: HttpExchange
+}
+
+export type DebugRuleType = 'search' | 'book' | 'chapter' | 'content'
+
+export interface DebugRulePayload {
+  sourceId: string
+  ruleType: DebugRuleType
+  keyword?: string
+  bookUrl?: string
+  chapterUrl?: string
+  // 编辑中尚未保存的规则，省略时使用已保存的规则
+  rules?: Omit<BookSourceRules, 'id'>
+}
+
+export interface DebugRuleResult {
+  results?: Record<string, unknown>[]
+  bookInfo?: Record<string, unknown>
+  chapters?: BookChapter[]
+  content?: string
+  elapsed: number
+  sourceId: string
+  ruleType: DebugRuleType
+}
+
+export interface BatchTestResult {
+  sourceId: string
+  name: string
+  url?: string | null
+  available: boolean
+  elapsed: number
+  error?: string | null
+}
+
+export interface ExecuteJsResult {
+  result: unknown
+  elapsed: number
+}
+
+export interface ValidateJsResult {
+  valid: boolean
+  error?: string | null
+}
+
+export type LogLevel = 'ALL' | 'DEBUG' | 'INFO' | 'WARN' | 'ERROR'
+
+// ==================== 调试会话 ====================
+
+// 搜索 → 详情 → 目录 → 正文
+export type DebugStageName = 'search' | 'bookInfo' | 'toc' | 'content'
+
+export interface DebugSession {
+  sessionId: string
+  sourceId: string
+  hasRules: boolean
+  // 各步骤使用的规则字段
+  stageRules: Partial<Record<DebugStageName, Record<string, string | null>>>
+}
+
+export interface DebugStagePayload {
+  // 搜索关键字、书籍地址或章节地址
+  input: string
+  // 运行正文步骤时所属书籍的地址
+  bookUrl?: string
+  // 修改过的规则字段，会写入会话中的规则副本
+  rules?: Record<string, string | null>
+}
+
+export interface DebugStageResult {
+  stage: DebugStageName
+  input: string
+  success: boolean
+  requestUrl: string | null
+  // 过长时已截断
+  responseBody: string | null
+  contentType: 'html' | 'json' | null
+  rules: Record<string, string | null>
+  extracted: unknown
+  error: string | null
+  duration: number
+  timestamp: string
+}
+
+export interface DebugLogEntry {
+  timestamp: string
+  level: string
+  message: string
+  data?: unknown
+}
+
+export interface DebugExecutePayload {
+  code: string
+  function: string
+  args: string[]
+  // 断点所在的行号，从 1 开始
+  breakpoints?: number[]
+  // 脚本中的 result 和 baseUrl
+  result?: string
+  baseUrl?: string
+}
+
+export interface DebugJavaCall {
+  name: string
+  args: string[]
+  result: string | null
+  error: string | null
+}
+
+// 执行过程中记录的事件，变量值已转换为便于显示的文本
+export interface DebugTraceEvent {
+  index: number
+  type: 'breakpoint' | 'call' | 'error'
+  line: number
+  // 所在函数，顶层代码为空
+  function: string | null
+  variables: Record<string, string>
+  // result 和 baseUrl
+  globals: Record<string, string>
+  call: DebugJavaCall | null
+  message: string | null
+}
+
+export interface DebugExecuteResult {
+  result: unknown
+  logs: DebugLogEntry[]
+  error: string | null
+  executionTime: number
+  success: boolean
+  trace: DebugTraceEvent[]
+  // 事件过多时只保留前面的部分
+  traceTruncated: boolean
+}
+
+// xpath 在后端按 CSS 选择器处理
+export type DebugTestRuleType = 'xpath' | 'css' | 'regex' | 'json'
+
+export interface DebugTestRuleResult {
+  extracted: unknown
+  error: string | null
+  executionTime: number
+  success: boolean
+}
+
+export interface HttpHeader {
+  name: string
+  value: string
+}
+
+export interface HttpRedirect {
+  status: number
+  url: string
+  location: string | null
+}
+
+// rule：书源规则指定；header：Content-Type；bom、meta：从内容识别；default：UTF-8
+export type HttpCharsetSource = 'rule' | 'header' | 'bom' | 'meta' | 'default'
+
+export interface HttpExchange {
+  id: string
+  // 发起方，例如 stage:search、test-url
+  origin: string
+  method: string
+  url: string
+  finalUrl: string | null
+  status: number | null
+  statusText: string | null
+  protocol: string | null
+  requestHeaders: HttpHeader[]
+  requestBody: string | null
+  responseHeaders: HttpHeader[]
+  redirects: HttpRedirect[]
+  startedAt: number
+  duration: number
+  // 发出请求到收到响应头的时间
+  waiting: number | null
+  size: number
+  charset: string | null
+  charsetSource: HttpCharsetSource | null
+  // 原始响应内容，超过 2MB 时截断
+  bodyBase64: string | null
+  bodyTruncated: boolean
+  error: string | null
+  success: boolean
+}
+
+// ==================== 书源测试用例 ====================
+
+export interface SourceFixture {
+  id: string
+  sourceId: string
+  name: string
+  stage: DebugStageName
+  // 页面地址，提取时作为 baseUrl
+  url: string
+  // 搜索关键字（search）或所属书籍地址（content）
+  input: string | null
+  body: string
+  contentType: 'html' | 'json' | null
+  // 期望的提取结果（JSON）
+  expected: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface SourceFixturePayload {
+  sourceId: string
+  name?: string
+  stage: DebugStageName
+  url: string
+  input?: string
+  body: string
+  contentType?: string | null
+  // 为空时用书源当前的规则提取一次作为期望结果
+  expected?: string
+  // 提取期望结果时使用该调试会话中修改过的规则
+  sessionId?: string
+}
+
+export interface FixtureDifference {
+  // 例如 $[0].name
+  path: string
+  expected: string
+  actual: string
+}
+
+export interface FixtureResult {
+  fixtureId: string
+  name: string
+  stage: DebugStageName
+  passed: boolean
+  actual: string | null
+  differences: FixtureDifference[]
+  error: string | null
+  duration: number
+}
+
+export interface FixtureReport {
+  sourceId: string
+  sourceName: string | null
+  total: number
+  passed: number
+  failed: number
+  results: FixtureResult[]
+}
+
+export interface RunFixturesPayload {
+  // 为空时运行全部书源的用例
+  sourceId?: string
+  fixtureIds?: string[]
+  // 使用该调试会话中修改过的规则
+  sessionId?: string
+}
+
+// ==================== 安全 ====================
+
+export type SecurityLevel = 'standard' | 'compatible' | 'trusted'
+
+export interface SecurityPolicyInfo {
+  level: SecurityLevel
+  description: string
+  policy: {
+    allowsNetwork: boolean
+    allowsFileSystem: boolean
+    allowsSystem: boolean
+    allowsReflection: boolean
+    allowsNative: boolean
+    maxExecutionTime: number
+    sandboxEnabled: boolean
+  }
+}
+
+export interface SecurityLevelInfo {
+  level: SecurityLevel
+  description: string
+  allowsNetwork: boolean
+  allowsFileSystem: boolean
+  allowsSystem: boolean
+  allowsReflection: boolean
+  allowsNative: boolean
+  // 秒，受信模式不限制时为 null
+  maxExecutionTime: number | null
+  sandboxEnabled: boolean
+}
+
+export interface PermissionCheckResult {
+  allowed: boolean
+  action: string
+  resource?: string | null
+}
+
+export type SecurityAction = 'network' | 'filesystem' | 'system' | 'reflection' | 'native' | 'class'
+
+export type SecurityEventType = 'level' | 'permission' | 'network' | 'source'
+
+export interface SecurityEvent {
+  id: number
+  type: SecurityEventType
+  action: string | null
+  resource: string | null
+  allowed: boolean
+  level: SecurityLevel
+  sourceId: string | null
+  message: string
+  timestamp: string
+}
+
+export interface SecurityEventQuery extends PageParams {
+  type?: SecurityEventType
+  allowed?: boolean
+  keyword?: string
+}
+
+export interface SourceCheckItem {
+  // 所在的规则字段，书源地址为 url
+  field: string
+  action: SecurityAction
+  resource: string | null
+  snippet: string
+  allowed: boolean
+}
+
+export interface SourceCheckResult {
+  sourceId: string
+  sourceName: string
+  level: SecurityLevel
+  allowed: boolean
+  items: SourceCheckItem[]
+}
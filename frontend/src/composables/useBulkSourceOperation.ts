@@ -0,0 +1,141 @@
+import { ref, computed } from 'vue'
+import { errorMessage } from '@/api'
+import type { BookSource } from '@/api'
+
+export type BulkSourceState = 'pending' | 'success' | 'failed' | 'cancelled'
+
+// 每个书源的执行结果
+export interface BulkSourceStatus {
+  sourceId: string
+  sourceName: string
+  state: BulkSourceState
+  message: string
+}
+
+export interface BulkTaskResult {
+  sourceId: string
+  success: boolean
+  message?: string
+}
+
+// 处理一批书源，返回每个书源的结果
+export type BulkTask = (sources: BookSource[]) => Promise<BulkTaskResult[]>
+
+export interface BulkRunOptions {
+  // 每次处理的书源数量，接口支持批量时使用
+  batchSize?: number
+  // 同时处理的批次数
+  concurrency?: number
+  // 任务没有返回某个书源的结果时的说明
+  missingMessage?: string
+}
+
+// 逐个处理书源的任务，返回值作为结果说明
+export const perSource = (fn: (source: BookSource) => Promise<string | void>): BulkTask =>
+  sources => Promise.all(sources.map(async source => {
+    try {
+      const message = await fn(source)
+      return { sourceId: source.sourceId, success: true, message: message || '' }
+    } catch (error) {
+      return { sourceId: source.sourceId, success: false, message: errorMessage(error, '未知错误') }
+    }
+  }))
+
+/**
+ * 书源批量操作
+ *
+ * 按批次执行任务并记录每个书源的结果；整批失败时该批书源都记为失败，
+ * 任务没有返回结果的书源也记为失败。
+ */
+export function useBulkSourceOperation() {
+  const title = ref('')
+  const statuses = ref<BulkSourceStatus[]>([])
+  const running = ref(false)
+
+  let cancelled = false
+
+  const finishedCount = computed(() => statuses.value.filter(s => s.state !== 'pending').length)
+  const failedCount = computed(() => statuses.value.filter(s => s.state === 'failed').length)
+  const successCount = computed(() => statuses.value.filter(s => s.state === 'success').length)
+
+  const updateStatus = (sourceId: string, patch: Partial<BulkSourceStatus>) => {
+    const status = statuses.value.find(s => s.sourceId === sourceId)
+    if (status) Object.assign(status, patch)
+  }
+
+  const runBatch = async (task: BulkTask, batch: BookSource[], fallback: string) => {
+    try {
+      const results = await task(batch)
+      const byId = new Map(results.map(result => [result.sourceId, result]))
+      for (const source of batch) {
+        const result = byId.get(source.sourceId)
+        updateStatus(source.sourceId, result
+          ? { state: result.success ? 'success' : 'failed', message: result.message || '' }
+          : { state: 'failed', message: fallback })
+      }
+    } catch (error) {
+      const message = errorMessage(error, '请求失败')
+      batch.forEach(source => updateStatus(source.sourceId, { state: 'failed', message }))
+    }
+  }
+
+  const run = async (
+    name: string,
+    sources: BookSource[],
+    task: BulkTask,
+    options: BulkRunOptions = {}
+  ) => {
+    if (running.value) return
+
+    const batchSize = Math.max(options.batchSize ?? 1, 1)
+    const concurrency = options.concurrency ?? 4
+    const fallback = options.missingMessage ?? '没有返回结果'
+
+    cancelled = false
+    title.value = name
+    statuses.value = sources.map(source => ({
+      sourceId: source.sourceId,
+      sourceName: source.name,
+      state: 'pending',
+      message: ''
+    }))
+    if (sources.length === 0) return
+
+    const queue: BookSource[][] = []
+    for (let i = 0; i < sources.length; i += batchSize) {
+      queue.push(sources.slice(i, i + batchSize))
+    }
+
+    running.value = true
+    const worker = async () => {
+      while (queue.length > 0 && !cancelled) {
+        await runBatch(task, queue.shift()!, fallback)
+      }
+    }
+
+    try {
+      await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, worker))
+    } finally {
+      running.value = false
+      statuses.value
+        .filter(s => s.state === 'pending')
+        .forEach(s => { s.state = 'cancelled' })
+    }
+  }
+
+  // 取消尚未开始的批次，进行中的请求会继续完成
+  const cancel = () => {
+    cancelled = true
+  }
+
+  return {
+    title,
+    statuses,
+    running,
+    finishedCount,
+    failedCount,
+    successCount,
+    run,
+    cancel
+  }
+}
@@ -0,0 +1,137 @@
+import { ref, watch, onScopeDispose, type Ref } from 'vue'
+import { debugApi, resolveWebSocketURL } from '@/api'
+import type { DebugLogEntry } from '@/api'
+
+// live：WebSocket 已连接；polling：连接断开，轮询接口并等待重连；closed：会话不存在
+export type LogStreamStatus = 'idle' | 'connecting' | 'live' | 'polling' | 'closed'
+
+type LogStreamMessage =
+  | { type: 'history'; logs: DebugLogEntry[] }
+  | { type: 'log'; log: DebugLogEntry }
+
+// 与后端 DebugLogWebSocketHandler 约定的关闭码
+const SESSION_NOT_FOUND = 4404
+
+// 与后端会话保留的日志条数一致
+const MAX_LOGS = 1000
+
+const POLL_INTERVAL = 2000
+const RECONNECT_MIN_DELAY = 1000
+const RECONNECT_MAX_DELAY = 30000
+
+/**
+ * 调试会话日志的实时推送
+ *
+ * 优先通过 WebSocket 接收日志，断开后按指数退避重连，
+ * 重连期间改为轮询接口。会话变化或组件卸载时自动关闭。
+ */
+export function useDebugLogStream(sessionId: Ref<string>) {
+  const logs = ref<DebugLogEntry[]>([])
+  const status = ref<LogStreamStatus>('idle')
+
+  let socket: WebSocket | null = null
+  let pollTimer: ReturnType<typeof setInterval> | null = null
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null
+  let reconnectDelay = RECONNECT_MIN_DELAY
+
+  const fetchLogs = async () => {
+    const id = sessionId.value
+    if (!id) return
+    try {
+      const result = await debugApi.sessionLogs(id)
+      // 请求期间会话已切换时丢弃
+      if (id === sessionId.value && status.value === 'polling') logs.value = result
+    } catch (error) {
+      console.error('获取日志失败', error)
+    }
+  }
+
+  const startPolling = () => {
+    status.value = 'polling'
+    if (pollTimer) return
+    fetchLogs()
+    pollTimer = setInterval(fetchLogs, POLL_INTERVAL)
+  }
+
+  const stopPolling = () => {
+    if (pollTimer) clearInterval(pollTimer)
+    pollTimer = null
+  }
+
+  const stop = () => {
+    stopPolling()
+    if (reconnectTimer) clearTimeout(reconnectTimer)
+    reconnectTimer = null
+    if (socket) {
+      // 主动关闭时不再触发重连
+      socket.onclose = null
+      socket.close()
+      socket = null
+    }
+  }
+
+  const append = (log: DebugLogEntry) => {
+    logs.value.push(log)
+    if (logs.value.length > MAX_LOGS) logs.value.splice(0, logs.value.length - MAX_LOGS)
+  }
+
+  const connect = (id: string) => {
+    // 重连期间继续显示轮询状态
+    if (status.value !== 'polling') status.value = 'connecting'
+    const current = new WebSocket(resolveWebSocketURL(`/ws/debug/logs?sessionId=${encodeURIComponent(id)}`))
+    socket = current
+
+    current.onopen = () => {
+      stopPolling()
+      reconnectDelay = RECONNECT_MIN_DELAY
+      status.value = 'live'
+    }
+
+    current.onmessage = event => {
+      try {
+        const message = JSON.parse(event.data) as LogStreamMessage
+        if (message.type === 'history') logs.value = message.logs
+        else if (message.type === 'log') append(message.log)
+      } catch (error) {
+        console.warn('无法解析调试日志:', error)
+      }
+    }
+
+    current.onclose = event => {
+      if (socket !== current) return
+      socket = null
+      if (event.code === SESSION_NOT_FOUND) {
+        stopPolling()
+        status.value = 'closed'
+        return
+      }
+      startPolling()
+      reconnectTimer = setTimeout(() => {
+        reconnectTimer = null
+        if (sessionId.value === id) connect(id)
+      }, reconnectDelay)
+      reconnectDelay = Math.min(reconnectDelay * 2, RECONNECT_MAX_DELAY)
+    }
+  }
+
+  watch(sessionId, id => {
+    stop()
+    logs.value = []
+    reconnectDelay = RECONNECT_MIN_DELAY
+    if (id) connect(id)
+    else status.value = 'idle'
+  }, { immediate: true })
+
+  onScopeDispose(stop)
+
+  // 清空本地显示的日志，服务端日志由调用方清空
+  const clear = () => {
+    logs.value = []
+  }
+
+  return {
+    logs,
+    status,
+    clear
+  }
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import type { OnlineSearchResult } from '@/api'
+import { useMultiSourceSearch } from './useMultiSourceSearch'
+
+// 每次请求返回一个由测试控制的 Promise，请求不响应 signal，模拟取消后仍然返回的旧请求
+interface PendingSearch {
+  keyword: string
+  resolve: (data: OnlineSearchResult[]) => void
+  reject: (error: unknown) => void
+}
+
+const { pending } = vi.hoisted(() => ({ pending: [] as PendingSearch[] }))
+
+// api/client 加载时依赖 window，这里只替换搜索用到的部分
+vi.mock('@/api', () => ({
+  booksApi: {
+    searchOnline: (keyword: string) => new Promise<OnlineSearchResult[]>((resolve, reject) => {
+      pending.push({ keyword, resolve, reject })
+    })
+  },
+  isCancelled: (error: unknown) => error instanceof Error && error.name === 'CancelledError',
+  errorMessage: (error: unknown, fallback: string) => (error instanceof Error ? error.message : fallback)
+}))
+
+const cancelledError = () => Object.assign(new Error('请求已取消'), { name: 'CancelledError' })
+
+const source = { sourceId: 'source-a', name: '书源 A' }
+
+const book = (name: string): OnlineSearchResult => ({
+  name,
+  author: '作者',
+  bookUrl: `https://a.example.com/${name}`
+} as OnlineSearchResult)
+
+beforeEach(() => {
+  pending.length = 0
+})
+
+describe('多书源搜索', () => {
+  it('取消后开始新搜索，旧请求返回的结果被丢弃', async () => {
+    const search = useMultiSourceSearch()
+
+    const first = search.search('旧', [source])
+    search.cancel()
+    const second = search.search('新', [source])
+    expect(pending.map(item => item.keyword)).toEqual(['旧', '新'])
+
+    pending[0].resolve([book('旧书')])
+    await first
+    expect(search.results.value).toEqual([])
+    expect(search.statuses.value[0].state).toBe('pending')
+
+    pending[1].resolve([book('新书')])
+    await second
+    expect(search.results.value.map(item => item.name)).toEqual(['新书'])
+    expect(search.statuses.value[0]).toMatchObject({ state: 'success', count: 1 })
+    expect(search.searching.value).toBe(false)
+  })
+
+  it('旧请求被取消时不会把新搜索中同一书源标记为取消', async () => {
+    const search = useMultiSourceSearch()
+
+    const first = search.search('旧', [source])
+    const second = search.search('新', [source])
+
+    pending[0].reject(cancelledError())
+    await first
+    expect(search.statuses.value[0].state).toBe('pending')
+    expect(search.searching.value).toBe(true)
+
+    pending[1].resolve([])
+    await second
+    expect(search.statuses.value[0]).toMatchObject({ state: 'success', count: 0 })
+  })
+
+  it('取消搜索时未完成的书源标记为取消', async () => {
+    const search = useMultiSourceSearch()
+
+    const running = search.search('关键词', [source])
+    search.cancel()
+    pending[0].reject(cancelledError())
+    await running
+
+    expect(search.statuses.value[0].state).toBe('cancelled')
+    expect(search.searching.value).toBe(false)
+  })
+})
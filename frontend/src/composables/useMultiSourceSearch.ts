@@ -0,0 +1,204 @@
+import { ref, computed } from 'vue'
+import { booksApi, isCancelled, errorMessage } from '@/api'
+import type { BookSource, OnlineSearchResult } from '@/api'
+import { bookKey } from '@/utils/book'
+
+// 单个书源返回的搜索结果
+export interface SearchResultItem {
+  name: string
+  author: string
+  coverUrl?: string
+  bookUrl: string
+  intro?: string
+  latestChapter?: string
+  sourceId: string
+  sourceName: string
+}
+
+// 按书名 + 作者合并后的书籍
+export interface AggregatedBook {
+  key: string
+  name: string
+  author: string
+  coverUrl?: string
+  intro?: string
+  latestChapter?: string
+  results: SearchResultItem[]
+}
+
+export type SourceSearchState = 'pending' | 'success' | 'failed' | 'cancelled'
+
+// 每个书源的搜索状态
+export interface SourceSearchStatus {
+  sourceId: string
+  sourceName: string
+  state: SourceSearchState
+  latency?: number
+  count: number
+  error?: string
+}
+
+// 直接传入书源列表即可
+export type SearchSource = Pick<BookSource, 'sourceId' | 'name'>
+
+// 书源规则返回的字段不一定齐全，补全作者和来源信息
+export const toSearchResultItem = (item: OnlineSearchResult, source?: SearchSource): SearchResultItem => ({
+  ...item,
+  author: item.author || '',
+  sourceId: item.sourceId || source?.sourceId || '',
+  sourceName: item.sourceName || source?.name || ''
+})
+
+interface MultiSourceSearchOptions {
+  // 同时进行的请求数
+  concurrency?: number
+  // 单个书源超时（毫秒）
+  timeout?: number
+}
+
+/**
+ * 多书源聚合搜索
+ *
+ * 关键词会并发分发到每个书源，结果在各书源返回时即时合并，
+ * 同名同作者的书籍合并为一条并记录所有来源。
+ */
+export function useMultiSourceSearch(options: MultiSourceSearchOptions = {}) {
+  const concurrency = options.concurrency ?? 8
+  const timeout = options.timeout ?? 20000
+
+  const results = ref<AggregatedBook[]>([])
+  const statuses = ref<SourceSearchStatus[]>([])
+  const searching = ref(false)
+  const keyword = ref('')
+
+  let controller: AbortController | null = null
+
+  const finishedCount = computed(() => statuses.value.filter(s => s.state !== 'pending').length)
+  const failedCount = computed(() => statuses.value.filter(s => s.state === 'failed').length)
+
+  // 合并一个书源返回的结果
+  const mergeResults = (items: SearchResultItem[]) => {
+    const index = new Map(results.value.map(book => [book.key, book]))
+
+    for (const item of items) {
+      if (!item.name) continue
+      const key = bookKey(item.name, item.author)
+      const existing = index.get(key)
+
+      if (existing) {
+        if (!existing.results.some(r => r.sourceId === item.sourceId && r.bookUrl === item.bookUrl)) {
+          existing.results.push(item)
+        }
+        existing.coverUrl ||= item.coverUrl
+        existing.intro ||= item.intro
+        existing.latestChapter ||= item.latestChapter
+      } else {
+        const book: AggregatedBook = {
+          key,
+          name: item.name,
+          author: item.author,
+          coverUrl: item.coverUrl,
+          intro: item.intro,
+          latestChapter: item.latestChapter,
+          results: [item]
+        }
+        index.set(key, book)
+        results.value.push(book)
+      }
+    }
+  }
+
+  const updateStatus = (sourceId: string, patch: Partial<SourceSearchStatus>) => {
+    const status = statuses.value.find(s => s.sourceId === sourceId)
+    if (status) Object.assign(status, patch)
+  }
+
+  // 搜索单个书源；搜索被取消后返回的结果属于旧的搜索，直接丢弃
+  const searchSource = async (source: SearchSource, text: string, signal: AbortSignal) => {
+    const startedAt = performance.now()
+    try {
+      const data = await booksApi.searchOnline(text, source.sourceId, { signal, timeout })
+      if (signal.aborted) return
+      const items = (data || []).map(item => toSearchResultItem(item, source))
+
+      mergeResults(items)
+      updateStatus(source.sourceId, {
+        state: 'success',
+        latency: Math.round(performance.now() - startedAt),
+        count: items.length
+      })
+    } catch (error) {
+      // cancel() 已经把未完成的书源标记为取消
+      if (signal.aborted) return
+      if (isCancelled(error)) {
+        updateStatus(source.sourceId, { state: 'cancelled' })
+        return
+      }
+      updateStatus(source.sourceId, {
+        state: 'failed',
+        latency: Math.round(performance.now() - startedAt),
+        error: errorMessage(error, '未知错误')
+      })
+    }
+  }
+
+  // 对所有书源发起搜索，并发数受 concurrency 限制
+  const search = async (text: string, sources: SearchSource[]) => {
+    cancel()
+
+    const currentController = new AbortController()
+    controller = currentController
+    keyword.value = text
+    results.value = []
+    statuses.value = sources.map(source => ({
+      sourceId: source.sourceId,
+      sourceName: source.name,
+      state: 'pending',
+      count: 0
+    }))
+
+    if (sources.length === 0) return
+
+    searching.value = true
+    const queue = [...sources]
+    const worker = async () => {
+      while (queue.length > 0 && !currentController.signal.aborted) {
+        const source = queue.shift()!
+        await searchSource(source, text, currentController.signal)
+      }
+    }
+
+    try {
+      await Promise.all(
+        Array.from({ length: Math.min(concurrency, sources.length) }, worker)
+      )
+    } finally {
+      if (controller === currentController) {
+        searching.value = false
+        controller = null
+      }
+    }
+  }
+
+  // 取消进行中的搜索
+  const cancel = () => {
+    if (!controller) return
+    controller.abort()
+    controller = null
+    searching.value = false
+    statuses.value
+      .filter(s => s.state === 'pending')
+      .forEach(s => { s.state = 'cancelled' })
+  }
+
+  return {
+    keyword,
+    results,
+    statuses,
+    searching,
+    finishedCount,
+    failedCount,
+    search,
+    cancel
+  }
+}
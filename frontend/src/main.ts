@@ -6,6 +6,7 @@ import 'element-plus/dist/index.css'
 import zhCn from 'element-plus/es/locale/lang/zh-cn'
 import App from './App.vue'
 import router from './router'
+import { setBackendPort } from './api'
  
 // 类型定义
 declare global {
@@ -87,6 +88,12 @@ if (typeof window.electron !== 'undefined') {
   // 监听后端就绪事件
   window.electron.backend.onReady((status: { port: number }) => {
     console.log('[Moyue] 后端就绪，端口:', status.port)
+    setBackendPort(status.port)
+  })
+  
+  // 页面加载前后端可能已经就绪
+  window.electron.backend.getStatus().then((status: { port?: number }) => {
+    if (status.port) setBackendPort(status.port)
   })
   
   // 监听后端启动失败事件
@@ -15,13 +15,23 @@ const routes: RouteRecordRaw[] = [
   {
     path: '/discover',
     name: 'Discover',
-    component: () => import('@/views/Home.vue'), // 临时复用 Home，实际应该有 Discover.vue
+    component: () => import('@/views/Discover.vue'),
     meta: {
       title: '发现',
       icon: 'Search',
       darkMode: false
     }
   },
+  {
+    path: '/downloads',
+    name: 'Downloads',
+    component: () => import('@/views/Downloads.vue'),
+    meta: {
+      title: '下载',
+      icon: 'Download',
+      darkMode: false
+    }
+  },
   {
     path: '/sources',
     name: 'Sources',
@@ -32,6 +42,17 @@ const routes: RouteRecordRaw[] = [
       darkMode: false
     }
   },
+  {
+    path: '/sources/health',
+    name: 'SourceHealth',
+    component: () => import('@/views/SourceHealth.vue'),
+    meta: {
+      title: '书源健康',
+      icon: 'Odometer',
+      darkMode: false,
+      hidden: true
+    }
+  },
   {
     path: '/security',
     name: 'Security',
@@ -45,7 +66,7 @@ const routes: RouteRecordRaw[] = [
   {
     path: '/settings',
     name: 'Settings',
-    component: () => import('@/views/Security.vue'), // 临时复用 Security，实际应该有 Settings.vue
+    component: () => import('@/views/Settings.vue'),
     meta: {
       title: '设置',
       icon: 'Setting',
@@ -62,6 +83,17 @@ const routes: RouteRecordRaw[] = [
       darkMode: false,
       hidden: true // 隐藏的调试页面
     }
+  },
+  {
+    path: '/read/:id',
+    name: 'Reader',
+    component: () => import('@/views/Reader.vue'),
+    meta: {
+      title: '阅读',
+      icon: 'Reading',
+      darkMode: false,
+      hidden: true
+    }
   }
 ]
  
@@ -0,0 +1,265 @@
+import { defineStore } from 'pinia'
+import { ref, computed, watch } from 'vue'
+import { booksApi } from '@/api'
+import type { Book, BookStats, AddBookPayload } from '@/api'
+import { dbGet, dbSet, STORE_KV } from '@/utils/db'
+
+// 书架快照，保存在 IndexedDB 中，启动时先用快照渲染
+interface ShelfSnapshot {
+  books: Book[]
+  recentBooks: Book[]
+  readingBooks: Book[]
+  finishedBooks: Book[]
+  stats: BookStats | null
+  favoriteIds: string[]
+  syncedAt: number | null
+}
+
+const SHELF_KEY = 'shelf'
+const SHELF_PAGE_SIZE = 1000
+const LIST_PAGE_SIZE = 50
+const PERSIST_DELAY = 500
+
+export const useBookStore = defineStore('book', () => {
+  const books = ref<Book[]>([])
+  const recentBooks = ref<Book[]>([])
+  const readingBooks = ref<Book[]>([])
+  const finishedBooks = ref<Book[]>([])
+  const stats = ref<BookStats | null>(null)
+  // 收藏只保存在本地
+  const favoriteIds = ref<string[]>([])
+  const syncedAt = ref<number | null>(null)
+  const loading = ref(false)
+  const hydrated = ref(false)
+
+  const favoriteBooks = computed(() => {
+    const ids = new Set(favoriteIds.value)
+    return books.value.filter(book => ids.has(book.id))
+  })
+
+  const isFavorite = (id: string) => favoriteIds.value.includes(id)
+
+  // ==================== 本地缓存 ====================
+
+  let hydratePromise: Promise<void> | null = null
+  let persistTimer: ReturnType<typeof setTimeout> | null = null
+
+  // 从 IndexedDB 恢复上次的书架
+  const hydrate = () => {
+    if (!hydratePromise) {
+      hydratePromise = (async () => {
+        try {
+          const snapshot = await dbGet<ShelfSnapshot>(STORE_KV, SHELF_KEY)
+          // 恢复期间可能已经从后端拿到了数据，不能用旧快照覆盖
+          if (snapshot && syncedAt.value === null) {
+            books.value = snapshot.books
+            recentBooks.value = snapshot.recentBooks
+            readingBooks.value = snapshot.readingBooks
+            finishedBooks.value = snapshot.finishedBooks
+            stats.value = snapshot.stats
+            favoriteIds.value = snapshot.favoriteIds
+            syncedAt.value = snapshot.syncedAt
+          }
+        } catch (error) {
+          console.warn('读取书架缓存失败:', error)
+        } finally {
+          hydrated.value = true
+        }
+      })()
+    }
+    return hydratePromise
+  }
+
+  const persist = async () => {
+    const snapshot: ShelfSnapshot = {
+      books: books.value,
+      recentBooks: recentBooks.value,
+      readingBooks: readingBooks.value,
+      finishedBooks: finishedBooks.value,
+      stats: stats.value,
+      favoriteIds: favoriteIds.value,
+      syncedAt: syncedAt.value
+    }
+    try {
+      // 响应式代理无法被结构化克隆
+      await dbSet(STORE_KV, SHELF_KEY, JSON.parse(JSON.stringify(snapshot)))
+    } catch (error) {
+      console.warn('保存书架缓存失败:', error)
+    }
+  }
+
+  watch(
+    [books, recentBooks, readingBooks, finishedBooks, stats, favoriteIds],
+    () => {
+      if (!hydrated.value) return
+      if (persistTimer) clearTimeout(persistTimer)
+      persistTimer = setTimeout(persist, PERSIST_DELAY)
+    },
+    { deep: true }
+  )
+
+  // ==================== 同步 ====================
+
+  const fetchShelf = async () => {
+    const page = await booksApi.list({ page: 0, size: SHELF_PAGE_SIZE })
+    books.value = page.content
+  }
+
+  const fetchRecent = async () => {
+    recentBooks.value = await booksApi.recent(20)
+  }
+
+  const fetchReading = async () => {
+    const page = await booksApi.reading({ page: 0, size: LIST_PAGE_SIZE })
+    readingBooks.value = page.content
+  }
+
+  const fetchFinished = async () => {
+    const page = await booksApi.finished({ page: 0, size: LIST_PAGE_SIZE })
+    finishedBooks.value = page.content
+  }
+
+  const fetchStats = async () => {
+    stats.value = await booksApi.stats()
+  }
+
+  // 从后端刷新书架和各个列表，失败时保留本地缓存
+  const refresh = async () => {
+    await hydrate()
+    loading.value = true
+    try {
+      await Promise.all([fetchShelf(), fetchRecent(), fetchReading(), fetchFinished(), fetchStats()])
+      syncedAt.value = Date.now()
+      // 书架上已删除的书不再保留收藏
+      const ids = new Set(books.value.map(book => book.id))
+      favoriteIds.value = favoriteIds.value.filter(id => ids.has(id))
+    } finally {
+      loading.value = false
+    }
+  }
+
+  // ==================== 修改 ====================
+
+  // 更新所有列表中的同一本书
+  const upsertBook = (book: Book) => {
+    const replace = (list: Book[]) => {
+      const index = list.findIndex(b => b.id === book.id)
+      if (index !== -1) list[index] = { ...list[index], ...book }
+      return index !== -1
+    }
+
+    if (!replace(books.value)) {
+      books.value.push(book)
+    }
+    replace(recentBooks.value)
+    replace(readingBooks.value)
+    replace(finishedBooks.value)
+  }
+
+  const addBook = async (payload: AddBookPayload) => {
+    const book = await booksApi.add(payload)
+    upsertBook(book)
+    if (stats.value) stats.value.total++
+    return book
+  }
+
+  // 通过 /api/books/import 导入（本地书籍）
+  const importBook = async (file: File) => {
+    const book = await booksApi.import(file)
+    upsertBook(book)
+    if (stats.value) stats.value.total++
+    return book
+  }
+
+  // 乐观删除，失败时恢复
+  const removeBook = async (id: string) => {
+    const previous = {
+      books: books.value,
+      recentBooks: recentBooks.value,
+      readingBooks: readingBooks.value,
+      finishedBooks: finishedBooks.value,
+      favoriteIds: favoriteIds.value
+    }
+
+    books.value = books.value.filter(b => b.id !== id)
+    recentBooks.value = recentBooks.value.filter(b => b.id !== id)
+    readingBooks.value = readingBooks.value.filter(b => b.id !== id)
+    finishedBooks.value = finishedBooks.value.filter(b => b.id !== id)
+    favoriteIds.value = favoriteIds.value.filter(favoriteId => favoriteId !== id)
+
+    try {
+      await booksApi.remove(id)
+      if (stats.value) stats.value.total = Math.max(0, stats.value.total - 1)
+    } catch (error) {
+      books.value = previous.books
+      recentBooks.value = previous.recentBooks
+      readingBooks.value = previous.readingBooks
+      finishedBooks.value = previous.finishedBooks
+      favoriteIds.value = previous.favoriteIds
+      throw error
+    }
+  }
+
+  const toggleFavorite = (id: string) => {
+    if (isFavorite(id)) {
+      favoriteIds.value = favoriteIds.value.filter(favoriteId => favoriteId !== id)
+    } else {
+      favoriteIds.value = [...favoriteIds.value, id]
+    }
+    return isFavorite(id)
+  }
+
+  // 乐观更新阅读进度，并把书移到最近阅读的最前面
+  const updateProgress = async (id: string, chapterIndex: number, chapterUrl?: string) => {
+    const book = books.value.find(b => b.id === id)
+    const previous = book ? { ...book } : null
+    const previousRecent = recentBooks.value
+
+    if (book) {
+      upsertBook({ ...book, currentChapter: chapterIndex })
+      recentBooks.value = [
+        books.value.find(b => b.id === id)!,
+        ...recentBooks.value.filter(b => b.id !== id)
+      ]
+    }
+
+    try {
+      const updated = await booksApi.updateProgress(id, { chapterIndex, chapterUrl })
+      upsertBook(updated)
+      return updated
+    } catch (error) {
+      if (previous) {
+        upsertBook(previous)
+        recentBooks.value = previousRecent
+      }
+      throw error
+    }
+  }
+
+  return {
+    books,
+    recentBooks,
+    readingBooks,
+    finishedBooks,
+    stats,
+    favoriteIds,
+    favoriteBooks,
+    syncedAt,
+    loading,
+    hydrated,
+    isFavorite,
+    hydrate,
+    refresh,
+    fetchShelf,
+    fetchRecent,
+    fetchReading,
+    fetchFinished,
+    fetchStats,
+    upsertBook,
+    addBook,
+    importBook,
+    removeBook,
+    toggleFavorite,
+    updateProgress
+  }
+})
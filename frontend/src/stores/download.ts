@@ -0,0 +1,341 @@
+import { defineStore } from 'pinia'
+import { ref, computed, watch } from 'vue'
+import { booksApi, isCancelled, errorMessage } from '@/api'
+import type { Book, BookChapter } from '@/api'
+import { dbGet, dbSet, STORE_KV } from '@/utils/db'
+import {
+  getCachedIndexes,
+  saveCachedChapter,
+  saveCachedToc,
+  removeBookCache
+} from '@/utils/chapterCache'
+
+export type DownloadStatus = 'queued' | 'downloading' | 'paused' | 'completed' | 'failed'
+
+// 一本书的下载任务，同一本书多次下载会合并到同一个任务
+export interface DownloadTask {
+  bookId: string
+  bookName: string
+  sourceId: string
+  // 等待下载的章节序号
+  pending: number[]
+  // 重试后仍然失败的章节序号
+  failed: number[]
+  completed: number
+  total: number
+  status: DownloadStatus
+  error?: string
+  createdAt: number
+  updatedAt: number
+}
+
+// 书架卡片上显示的下载进度
+export interface DownloadProgress {
+  status: DownloadStatus
+  percent: number
+}
+
+// 章节范围（包含两端，从 0 开始）
+export interface DownloadRange {
+  start: number
+  end: number
+}
+
+const TASKS_KEY = 'downloads'
+// 每个书源同时下载的章节数，避免触发书源限流
+const PER_SOURCE_CONCURRENCY = 2
+const MAX_RETRIES = 3
+const RETRY_BASE_DELAY = 1000
+const CHAPTER_PAGE_SIZE = 500
+const PERSIST_DELAY = 1000
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+export const useDownloadStore = defineStore('download', () => {
+  const tasks = ref<DownloadTask[]>([])
+  const restored = ref(false)
+
+  // 运行时状态，不持久化
+  const activeBySource = new Map<string, number>()
+  const activeByBook = new Map<string, number>()
+  const controllers = new Map<string, AbortController>()
+  // 正在下载的章节序号，按书籍区分
+  const inFlight = new Map<string, Set<number>>()
+
+  let restorePromise: Promise<void> | null = null
+  let persistTimer: ReturnType<typeof setTimeout> | null = null
+
+  const findTask = (bookId: string) => tasks.value.find(t => t.bookId === bookId)
+
+  const progress = computed(() => {
+    const map = new Map<string, DownloadProgress>()
+    for (const task of tasks.value) {
+      if (task.total === 0) continue
+      map.set(task.bookId, {
+        status: task.status,
+        percent: Math.floor((task.completed / task.total) * 100)
+      })
+    }
+    return map
+  })
+
+  // ==================== 持久化 ====================
+
+  const persist = async () => {
+    try {
+      await dbSet(STORE_KV, TASKS_KEY, JSON.parse(JSON.stringify(tasks.value)))
+    } catch (error) {
+      console.warn('保存下载任务失败:', error)
+    }
+  }
+
+  watch(
+    tasks,
+    () => {
+      if (!restored.value) return
+      if (persistTimer) clearTimeout(persistTimer)
+      persistTimer = setTimeout(persist, PERSIST_DELAY)
+    },
+    { deep: true }
+  )
+
+  // 恢复上次未完成的任务，需要在后端就绪后调用
+  const restore = () => {
+    if (!restorePromise) {
+      restorePromise = (async () => {
+        try {
+          const saved = await dbGet<DownloadTask[]>(STORE_KV, TASKS_KEY)
+          if (saved) {
+            // 退出时正在下载的任务重新排队，暂停的保持暂停
+            tasks.value = saved.map((task): DownloadTask => ({
+              ...task,
+              status: task.status === 'downloading' ? 'queued' : task.status
+            }))
+          }
+        } catch (error) {
+          console.warn('读取下载任务失败:', error)
+        } finally {
+          restored.value = true
+        }
+        pump()
+      })()
+    }
+    return restorePromise
+  }
+
+  // ==================== 调度 ====================
+
+  const controllerOf = (bookId: string) => {
+    let controller = controllers.get(bookId)
+    if (!controller) {
+      controller = new AbortController()
+      controllers.set(bookId, controller)
+    }
+    return controller
+  }
+
+  const adjust = (counter: Map<string, number>, key: string, delta: number) => {
+    counter.set(key, (counter.get(key) ?? 0) + delta)
+  }
+
+  const settle = (task: DownloadTask) => {
+    if (task.pending.length > 0 || (activeByBook.get(task.bookId) ?? 0) > 0) return
+    if (task.status !== 'queued' && task.status !== 'downloading') return
+    task.status = task.failed.length > 0 ? 'failed' : 'completed'
+    task.updatedAt = Date.now()
+    controllers.delete(task.bookId)
+  }
+
+  // 按书源的并发上限启动等待中的章节
+  const pump = () => {
+    for (const task of tasks.value) {
+      if (task.status !== 'queued' && task.status !== 'downloading') continue
+
+      while (task.pending.length > 0 && (activeBySource.get(task.sourceId) ?? 0) < PER_SOURCE_CONCURRENCY) {
+        const index = task.pending.shift()!
+        task.status = 'downloading'
+        downloadChapter(task, index)
+      }
+      settle(task)
+    }
+  }
+
+  // 下载单个章节，失败时按 1s、2s、4s 退避重试
+  const downloadChapter = async (task: DownloadTask, index: number) => {
+    const { signal } = controllerOf(task.bookId)
+    adjust(activeBySource, task.sourceId, 1)
+    adjust(activeByBook, task.bookId, 1)
+    if (!inFlight.has(task.bookId)) inFlight.set(task.bookId, new Set())
+    inFlight.get(task.bookId)!.add(index)
+
+    try {
+      for (let attempt = 0; ; attempt++) {
+        try {
+          const data = await booksApi.chapterContent(task.bookId, index, false, { signal })
+          await saveCachedChapter(task.bookId, index, data.chapter?.title || '', data.content || '')
+          task.completed++
+          return
+        } catch (error) {
+          // 暂停时放回队列，恢复后重新下载
+          if (signal.aborted || isCancelled(error)) {
+            task.pending.unshift(index)
+            return
+          }
+          if (attempt >= MAX_RETRIES) {
+            task.failed.push(index)
+            task.error = errorMessage(error, '下载失败')
+            return
+          }
+          await sleep(RETRY_BASE_DELAY * 2 ** attempt)
+          if (signal.aborted) {
+            task.pending.unshift(index)
+            return
+          }
+        }
+      }
+    } finally {
+      inFlight.get(task.bookId)?.delete(index)
+      adjust(activeBySource, task.sourceId, -1)
+      adjust(activeByBook, task.bookId, -1)
+      task.updatedAt = Date.now()
+      settle(task)
+      pump()
+    }
+  }
+
+  // ==================== 操作 ====================
+
+  // 获取完整目录并保存到本地，离线时阅读页使用
+  const fetchToc = async (bookId: string) => {
+    const result: BookChapter[] = []
+    let page = 0
+    let total = Infinity
+
+    while (result.length < total) {
+      const data = await booksApi.chapters(bookId, { page, size: CHAPTER_PAGE_SIZE })
+      total = data.total
+      if (data.chapters.length === 0) break
+      result.push(...data.chapters)
+      page++
+    }
+
+    await saveCachedToc(bookId, result)
+    return result
+  }
+
+  /**
+   * 下载整本书或指定章节范围
+   *
+   * 已缓存的章节会跳过，返回加入队列的章节数（含重新下载的失败章节）。
+   */
+  const enqueue = async (book: Book, range?: DownloadRange) => {
+    await restore()
+
+    const toc = await fetchToc(book.id)
+    const start = Math.max(0, range?.start ?? 0)
+    const end = Math.min(toc.length - 1, range?.end ?? toc.length - 1)
+
+    // 读取缓存前后各取一次正在下载的章节，期间下载完成的章节已经在缓存中
+    const downloading = new Set(inFlight.get(book.id))
+    const cached = new Set(await getCachedIndexes(book.id))
+    inFlight.get(book.id)?.forEach(index => downloading.add(index))
+    const task = findTask(book.id)
+    const queued = new Set(task ? [...task.pending, ...task.failed] : [])
+
+    const indexes: number[] = []
+    for (let i = start; i <= end; i++) {
+      if (!cached.has(i) && !queued.has(i) && !downloading.has(i)) indexes.push(i)
+    }
+    const retried = task?.failed.length ?? 0
+    if (indexes.length === 0 && retried === 0) return 0
+
+    const now = Date.now()
+    if (task) {
+      // 失败的章节一并重新下载
+      task.pending.push(...task.failed, ...indexes)
+      task.total += indexes.length
+      task.failed = []
+      task.error = undefined
+      if (task.status !== 'paused') task.status = 'queued'
+      task.updatedAt = now
+    } else {
+      tasks.value.push({
+        bookId: book.id,
+        bookName: book.name,
+        sourceId: book.origin || '',
+        pending: indexes,
+        failed: [],
+        completed: 0,
+        total: indexes.length,
+        status: 'queued',
+        createdAt: now,
+        updatedAt: now
+      })
+    }
+
+    pump()
+    return indexes.length + retried
+  }
+
+  const pause = (bookId: string) => {
+    const task = findTask(bookId)
+    if (!task || (task.status !== 'queued' && task.status !== 'downloading')) return
+    task.status = 'paused'
+    task.updatedAt = Date.now()
+    // 进行中的请求取消后会放回 pending
+    controllers.get(bookId)?.abort()
+    controllers.delete(bookId)
+  }
+
+  const resume = (bookId: string) => {
+    const task = findTask(bookId)
+    if (!task || task.status !== 'paused') return
+    task.status = 'queued'
+    task.updatedAt = Date.now()
+    pump()
+  }
+
+  // 重新下载失败的章节
+  const retryFailed = (bookId: string) => {
+    const task = findTask(bookId)
+    if (!task || task.failed.length === 0) return
+    task.pending.push(...task.failed)
+    task.failed = []
+    task.error = undefined
+    task.status = 'queued'
+    task.updatedAt = Date.now()
+    pump()
+  }
+
+  // 移除任务，已下载的章节保留
+  const removeTask = (bookId: string) => {
+    controllers.get(bookId)?.abort()
+    controllers.delete(bookId)
+    tasks.value = tasks.value.filter(t => t.bookId !== bookId)
+  }
+
+  // 移除任务并删除离线章节（删书、换源后缓存失效时调用）
+  const discard = async (bookId: string) => {
+    removeTask(bookId)
+    try {
+      await removeBookCache(bookId)
+    } catch (error) {
+      console.warn('删除离线章节失败:', error)
+    }
+  }
+
+  return {
+    tasks,
+    restored,
+    progress,
+    findTask,
+    restore,
+    fetchToc,
+    enqueue,
+    pause,
+    resume,
+    retryFailed,
+    removeTask,
+    discard
+  }
+})
@@ -0,0 +1,159 @@
+import { defineStore } from 'pinia'
+import { ref, computed, watch } from 'vue'
+
+export type ReaderTheme = 'paper' | 'sepia' | 'night' | 'custom'
+export type ReaderLayoutMode = 'scroll' | 'paginated'
+export type ReaderSettingsScope = 'book' | 'global'
+
+export interface ReaderSettings {
+  fontFamily: string
+  fontSize: number
+  lineHeight: number
+  paragraphSpacing: number
+  marginX: number
+  marginY: number
+  maxWidth: number
+  theme: ReaderTheme
+  customBackground: string
+  customColor: string
+  layoutMode: ReaderLayoutMode
+  pageAnimation: boolean
+}
+
+export interface ReaderThemeColors {
+  label: string
+  background: string
+  color: string
+}
+
+// 预设主题
+export const READER_THEMES: Record<Exclude<ReaderTheme, 'custom'>, ReaderThemeColors> = {
+  paper: { label: '纸张', background: '#fbfaf6', color: '#2c2c2c' },
+  sepia: { label: '护眼', background: '#f4ecd8', color: '#5b4636' },
+  night: { label: '夜间', background: '#1a1e24', color: '#a8b0bc' }
+}
+
+// 常用中文字体
+export const READER_FONTS = [
+  { label: '系统默认', value: '-apple-system, BlinkMacSystemFont, "PingFang SC", "Microsoft YaHei", sans-serif' },
+  { label: '宋体', value: '"Songti SC", "Noto Serif SC", SimSun, serif' },
+  { label: '黑体', value: '"Heiti SC", "Noto Sans SC", SimHei, sans-serif' },
+  { label: '楷体', value: '"Kaiti SC", STKaiti, KaiTi, serif' },
+  { label: '仿宋', value: '"STFangsong", FangSong, serif' }
+]
+
+export const DEFAULT_READER_SETTINGS: ReaderSettings = {
+  fontFamily: READER_FONTS[1].value,
+  fontSize: 18,
+  lineHeight: 1.8,
+  paragraphSpacing: 0.8,
+  marginX: 40,
+  marginY: 24,
+  maxWidth: 760,
+  theme: 'paper',
+  customBackground: '#ffffff',
+  customColor: '#333333',
+  layoutMode: 'scroll',
+  pageAnimation: true
+}
+
+const GLOBAL_SETTINGS_KEY = 'moyue:reader-settings'
+const BOOK_SETTINGS_KEY = 'moyue:reader-book-settings'
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key)
+    return raw ? JSON.parse(raw) : fallback
+  } catch (error) {
+    console.warn(`读取 ${key} 失败:`, error)
+    return fallback
+  }
+}
+
+export const useReaderStore = defineStore('reader', () => {
+  // 全局默认设置
+  const globalSettings = ref<ReaderSettings>({
+    ...DEFAULT_READER_SETTINGS,
+    ...readJson<Partial<ReaderSettings>>(GLOBAL_SETTINGS_KEY, {})
+  })
+  // 单本书覆盖的设置（只保存与全局不同的字段）
+  const bookSettings = ref<Record<string, Partial<ReaderSettings>>>(
+    readJson(BOOK_SETTINGS_KEY, {})
+  )
+  const currentBookId = ref<string | null>(null)
+
+  // 当前生效的设置
+  const settings = computed<ReaderSettings>(() => {
+    const override = currentBookId.value ? bookSettings.value[currentBookId.value] : undefined
+    return { ...globalSettings.value, ...override }
+  })
+
+  const hasBookOverride = computed(() => {
+    if (!currentBookId.value) return false
+    const override = bookSettings.value[currentBookId.value]
+    return !!override && Object.keys(override).length > 0
+  })
+
+  const themeColors = computed<ReaderThemeColors>(() => {
+    const { theme, customBackground, customColor } = settings.value
+    if (theme === 'custom') {
+      return { label: '自定义', background: customBackground, color: customColor }
+    }
+    return READER_THEMES[theme]
+  })
+
+  const isDark = computed(() => settings.value.theme === 'night')
+
+  const setCurrentBook = (bookId: string | null) => {
+    currentBookId.value = bookId
+  }
+
+  // 更新设置，scope 为 book 时只写入当前书籍
+  const updateSettings = (patch: Partial<ReaderSettings>, scope: ReaderSettingsScope) => {
+    if (scope === 'book' && currentBookId.value) {
+      bookSettings.value = {
+        ...bookSettings.value,
+        [currentBookId.value]: {
+          ...bookSettings.value[currentBookId.value],
+          ...patch
+        }
+      }
+    } else {
+      globalSettings.value = { ...globalSettings.value, ...patch }
+    }
+  }
+
+  // 清除当前书籍的单独设置，回到全局默认
+  const resetBookSettings = () => {
+    if (!currentBookId.value) return
+    const { [currentBookId.value]: _removed, ...rest } = bookSettings.value
+    bookSettings.value = rest
+  }
+
+  const resetGlobalSettings = () => {
+    globalSettings.value = { ...DEFAULT_READER_SETTINGS }
+  }
+
+  // 持久化
+  watch(globalSettings, (value) => {
+    localStorage.setItem(GLOBAL_SETTINGS_KEY, JSON.stringify(value))
+  }, { deep: true })
+
+  watch(bookSettings, (value) => {
+    localStorage.setItem(BOOK_SETTINGS_KEY, JSON.stringify(value))
+  }, { deep: true })
+
+  return {
+    globalSettings,
+    bookSettings,
+    currentBookId,
+    settings,
+    hasBookOverride,
+    themeColors,
+    isDark,
+    setCurrentBook,
+    updateSettings,
+    resetBookSettings,
+    resetGlobalSettings
+  }
+})
@@ -1,30 +1,49 @@
 import { defineStore } from 'pinia'
 import { ref } from 'vue'
-import axios from 'axios'
- 
-export interface BookSource {
-  id: string
-  name: string
-  url: string
-  group: string
-  enabled: boolean
-  securityRating: number
-  code: string
-  author?: string
-  version?: string
-}
+import { sourcesApi, errorMessage, ApiError } from '@/api'
+import type {
+  BookSource,
+  BookSourceRules,
+  AddSourcePayload,
+  UpdateSourcePayload,
+  SourceImportItem,
+  SourceImportResult
+} from '@/api'
+import { recordSourceChecks } from '@/utils/sourceHealth'
+import { toSourceSnapshot, addSourceRevision, type SourceSnapshot } from '@/utils/sourceRevisions'
+ 
+export type { BookSource }
+ 
+// 批量导入时每次请求的书源数量，避免单个请求过大
+const IMPORT_BATCH_SIZE = 100
+ 
+// 获取列表时每页的书源数量
+const LIST_PAGE_SIZE = 500
  
 export const useSourceStore = defineStore('source', () => {
   const sources = ref<BookSource[]>([])
   const loading = ref(false)
   const currentSource = ref<BookSource | null>(null)
  
-  // 获取所有书源
+  // 替换列表中的书源
+  const replaceSource = (source: BookSource) => {
+    const index = sources.value.findIndex(s => s.sourceId === source.sourceId)
+    if (index !== -1) {
+      sources.value[index] = source
+    }
+  }
+ 
+  // 获取所有书源，逐页读取直到最后一页
   const fetchSources = async () => {
     loading.value = true
     try {
-      const res = await axios.get('/api/sources')
-      sources.value = res.data
+      const all: BookSource[] = []
+      for (let page = 0; ; page++) {
+        const result = await sourcesApi.list({ page, size: LIST_PAGE_SIZE })
+        all.push(...result.content)
+        if (result.last || result.content.length === 0) break
+      }
+      sources.value = all
     } catch (error) {
       console.error('获取书源失败:', error)
       throw error
@@ -34,11 +53,11 @@ export const useSourceStore = defineStore('source', () => {
   }
  
   // 获取单个书源详情
-  const fetchSource = async (id: string) => {
+  const fetchSource = async (sourceId: string) => {
     try {
-      const res = await axios.get(`/api/sources/${id}`)
-      currentSource.value = res.data
-      return res.data
+      const source = await sourcesApi.get(sourceId)
+      currentSource.value = source
+      return source
     } catch (error) {
       console.error('获取书源详情失败:', error)
       throw error
@@ -46,73 +65,206 @@ export const useSourceStore = defineStore('source', () => {
   }
  
   // 创建书源
-  const createSource = async (source: Partial<BookSource>) => {
+  const createSource = async (payload: AddSourcePayload) => {
     try {
-      const res = await axios.post('/api/sources', source)
-      sources.value.push(res.data)
-      return res.data
+      const source = await sourcesApi.add(payload)
+      sources.value.push(source)
+      return source
     } catch (error) {
       console.error('创建书源失败:', error)
       throw error
     }
   }
  
-  // 更新书源
-  const updateSource = async (id: string, source: Partial<BookSource>) => {
+  // 记录书源版本，失败时不影响保存
+  const recordRevision = (source: BookSource, rules: BookSourceRules | null, label: string) => {
+    return addSourceRevision(toSourceSnapshot(source, rules), label)
+      .catch(error => console.error('记录书源历史失败:', error))
+  }
+ 
+  // 更新书源，保存前后的版本都记录到本地历史（与上一版本相同时跳过）
+  const updateSource = async (sourceId: string, payload: UpdateSourcePayload) => {
     try {
-      const res = await axios.put(`/api/sources/${id}`, source)
-      const index = sources.value.findIndex(s => s.id === id)
-      if (index !== -1) {
-        sources.value[index] = res.data
-      }
-      return res.data
+      const before = sources.value.find(s => s.sourceId === sourceId)
+      const rules = await sourcesApi.sourceRules(sourceId).catch(() => null)
+      if (before) await recordRevision(before, rules, '编辑前')
+      
+      const source = await sourcesApi.update(sourceId, payload)
+      replaceSource(source)
+      await recordRevision(source, rules, '编辑')
+      return source
     } catch (error) {
       console.error('更新书源失败:', error)
       throw error
     }
   }
  
+  // 保存书源规则，同样记录保存前后的版本
+  const updateRules = async (sourceId: string, rules: Omit<BookSourceRules, 'id'>) => {
+    try {
+      const source = sources.value.find(s => s.sourceId === sourceId)
+      if (source) {
+        await recordRevision(source, await sourcesApi.sourceRules(sourceId).catch(() => null), '编辑前')
+      }
+      
+      const saved = await sourcesApi.updateRules(sourceId, rules)
+      if (source) await recordRevision(source, saved, '编辑规则')
+      return saved
+    } catch (error) {
+      console.error('保存书源规则失败:', error)
+      throw error
+    }
+  }
+ 
+  // 批量设置分组，只改分组的操作不记录版本历史
+  const updateGroups = async (groups: Record<string, string>) => {
+    try {
+      const updated = await sourcesApi.updateGroups(groups)
+      updated.forEach(replaceSource)
+      return updated
+    } catch (error) {
+      console.error('批量设置分组失败:', error)
+      throw error
+    }
+  }
+ 
+  // 启用/禁用书源
+  const toggleSource = async (sourceId: string, enabled: boolean) => {
+    try {
+      const source = await sourcesApi.toggle(sourceId, enabled)
+      replaceSource(source)
+      return source
+    } catch (error) {
+      console.error('切换书源状态失败:', error)
+      throw error
+    }
+  }
+ 
   // 删除书源
-  const deleteSource = async (id: string) => {
+  const deleteSource = async (sourceId: string) => {
     try {
-      await axios.delete(`/api/sources/${id}`)
-      sources.value = sources.value.filter(s => s.id !== id)
+      await sourcesApi.remove(sourceId)
+      sources.value = sources.value.filter(s => s.sourceId !== sourceId)
     } catch (error) {
       console.error('删除书源失败:', error)
       throw error
     }
   }
  
-  // 导入书源
-  const importSource = async (code: string) => {
+  // 批量删除书源，从列表中移除已删除的书源，返回未删除的 sourceId
+  const deleteSources = async (sourceIds: string[]) => {
+    try {
+      const result = await sourcesApi.removeMany(sourceIds)
+      const deleted = new Set(result.sourceIds)
+      sources.value = sources.value.filter(s => !deleted.has(s.sourceId))
+      return sourceIds.filter(sourceId => !deleted.has(sourceId))
+    } catch (error) {
+      console.error('批量删除书源失败:', error)
+      throw error
+    }
+  }
+ 
+  /**
+   * 批量导入书源
+   *
+   * 分批提交，后端逐个导入并返回每个书源的结果；整批请求失败时该批书源都记为失败。
+   * 有书源导入成功时刷新列表。
+   */
+  const importSources = async (
+    items: SourceImportItem[],
+    overwrite = false,
+    onProgress?: (done: number) => void
+  ) => {
+    const result: SourceImportResult = { created: [], updated: [], failed: [] }
+ 
+    for (let i = 0; i < items.length; i += IMPORT_BATCH_SIZE) {
+      const batch = items.slice(i, i + IMPORT_BATCH_SIZE)
+      try {
+        const batchResult = await sourcesApi.importBatch(batch, overwrite)
+        result.created.push(...batchResult.created)
+        result.updated.push(...batchResult.updated)
+        result.failed.push(...batchResult.failed)
+      } catch (error) {
+        console.error('导入书源失败:', error)
+        const message = errorMessage(error, '请求失败')
+        result.failed.push(...batch.map(item => ({
+          sourceId: item.source.sourceId,
+          name: item.source.name,
+          message
+        })))
+      }
+      onProgress?.(i + batch.length)
+    }
+ 
+    if (result.created.length > 0 || result.updated.length > 0) {
+      await fetchSources().catch(() => {})
+    }
+    return result
+  }
+ 
+  // 回退到历史版本：以覆盖导入的方式写回快照
+  const revertSource = async (snapshot: SourceSnapshot) => {
+    const sourceId = snapshot.source.sourceId
     try {
-      const res = await axios.post('/api/sources/import', { code })
-      sources.value.push(res.data)
-      return res.data
+      const [current, currentRules] = await Promise.all([sourcesApi.get(sourceId), sourcesApi.sourceRules(sourceId)])
+      await recordRevision(current, currentRules, '回退前')
+      
+      const result = await sourcesApi.importBatch([snapshot], true)
+      if (result.failed.length > 0) {
+        throw new ApiError(result.failed[0].message, 'business')
+      }
+      // 覆盖导入时为空的评级会保留原值，需要单独清除
+      let source = await sourcesApi.get(sourceId)
+      if (snapshot.source.securityRating == null && source.securityRating != null) {
+        source = await sourcesApi.update(sourceId, { securityRating: 0 })
+      }
+      replaceSource(source)
+      await recordRevision(source, await sourcesApi.sourceRules(sourceId), '回退')
+      return source
     } catch (error) {
-      console.error('导入书源失败:', error)
+      console.error('回退书源失败:', error)
       throw error
     }
   }
  
-  // 导出书源
-  const exportSources = async (ids: string[]) => {
+  // 导出书源，返回 JSON 数组文本
+  const exportSources = async (sourceIds: string[]) => {
     try {
-      const res = await axios.post('/api/sources/export', { ids })
-      return res.data
+      const items = await Promise.all(sourceIds.map(sourceId => sourcesApi.export(sourceId)))
+      return `[${items.join(',')}]`
     } catch (error) {
       console.error('导出书源失败:', error)
       throw error
     }
   }
  
-  // 测试书源
-  const testSource = async (id: string) => {
+  // 检查结果同时记录到本地历史，供健康看板使用
+  const recordChecks = (checked: BookSource[]) => {
+    return recordSourceChecks(checked).catch(error => console.error('记录检查历史失败:', error))
+  }
+ 
+  // 检查书源可用性
+  const checkSource = async (sourceId: string) => {
+    try {
+      const source = await sourcesApi.check(sourceId)
+      replaceSource(source)
+      await recordChecks([source])
+      return source
+    } catch (error) {
+      console.error('检查书源失败:', error)
+      throw error
+    }
+  }
+ 
+  // 批量检查书源可用性，不存在的书源不会出现在返回结果中
+  const checkSources = async (sourceIds: string[]) => {
     try {
-      const res = await axios.post(`/api/sources/${id}/test`)
-      return res.data
+      const checked = await sourcesApi.checkMany(sourceIds)
+      checked.forEach(replaceSource)
+      await recordChecks(checked)
+      return checked
     } catch (error) {
-      console.error('测试书源失败:', error)
+      console.error('批量检查书源失败:', error)
       throw error
     }
   }
@@ -125,9 +277,15 @@ export const useSourceStore = defineStore('source', () => {
     fetchSource,
     createSource,
     updateSource,
+    updateGroups,
+    updateRules,
+    revertSource,
+    toggleSource,
     deleteSource,
-    importSource,
+    deleteSources,
+    importSources,
     exportSources,
-    testSource
+    checkSource,
+    checkSources
   }
 })
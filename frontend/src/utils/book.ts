@@ -0,0 +1,142 @@
+// 书名/作者归一化：去掉空白、常见标点和括号备注，统一大小写与全角字符
+export const normalizeText = (text?: string | null): string => {
+  if (!text) return ''
+  return text
+    .normalize('NFKC')
+    .replace(/[（(【\[].*?[)）】\]]/g, '')
+    .replace(/[\s·•・:：,，.。!！?？'"“”‘’《》<>-]/g, '')
+    .toLowerCase()
+}
+
+// 作者字段常带有“作者：”前缀
+export const normalizeAuthor = (author?: string | null): string => {
+  return normalizeText((author || '').replace(/^\s*(作\s*者|著)\s*[:：]?/, ''))
+}
+
+// 用于合并同一本书的键（书名 + 作者）
+export const bookKey = (name?: string | null, author?: string | null): string => {
+  return `${normalizeText(name)}::${normalizeAuthor(author)}`
+}
+
+const CHINESE_DIGITS: Record<string, number> = {
+  零: 0, 〇: 0, 一: 1, 二: 2, 两: 2, 三: 3, 四: 4, 五: 5, 六: 6, 七: 7, 八: 8, 九: 9
+}
+const CHINESE_UNITS: Record<string, number> = { 十: 10, 百: 100, 千: 1000, 万: 10000 }
+
+// 中文数字转阿拉伯数字，如“一百二十三” -> 123
+export const chineseToNumber = (text: string): number => {
+  let total = 0
+  let section = 0
+  let digit = 0
+
+  for (const char of text) {
+    if (char in CHINESE_DIGITS) {
+      digit = CHINESE_DIGITS[char]
+    } else if (char === '万') {
+      total += (section + digit) * 10000
+      section = 0
+      digit = 0
+    } else if (char in CHINESE_UNITS) {
+      section += (digit || 1) * CHINESE_UNITS[char]
+      digit = 0
+    }
+  }
+
+  return total + section + digit
+}
+
+// 提取章节序号，如“第一百二十章 xxx” -> 120，没有序号时返回 null
+export const chapterNumber = (title: string): number | null => {
+  const match = title.normalize('NFKC').match(/第\s*([0-9零〇一二两三四五六七八九十百千万]+)\s*[章节回卷集话]/)
+  if (!match) return null
+  const value = /^\d+$/.test(match[1]) ? parseInt(match[1], 10) : chineseToNumber(match[1])
+  return Number.isFinite(value) ? value : null
+}
+
+// 去掉序号后的章节名
+const chapterName = (title: string): string => {
+  return normalizeText(
+    title.normalize('NFKC').replace(/^.*?第\s*[0-9零〇一二两三四五六七八九十百千万]+\s*[章节回卷集话]/, '')
+  )
+}
+
+// 基于字符二元组的 Dice 相似度
+const similarity = (a: string, b: string): number => {
+  if (a === b) return 1
+  if (a.length < 2 || b.length < 2) return 0
+
+  const bigrams = new Map<string, number>()
+  for (let i = 0; i < a.length - 1; i++) {
+    const gram = a.slice(i, i + 2)
+    bigrams.set(gram, (bigrams.get(gram) || 0) + 1)
+  }
+
+  let overlap = 0
+  for (let i = 0; i < b.length - 1; i++) {
+    const gram = b.slice(i, i + 2)
+    const count = bigrams.get(gram) || 0
+    if (count > 0) {
+      bigrams.set(gram, count - 1)
+      overlap++
+    }
+  }
+
+  return (2 * overlap) / (a.length + b.length - 2)
+}
+
+/**
+ * 在另一个书源的目录中找到与指定章节对应的位置
+ *
+ * 不同书源的目录常有序言、公告或分卷标题，直接按下标对应会错位，
+ * 因此先按章节序号和章节名匹配，找不到时才按目录比例估算。
+ */
+export const matchChapterIndex = (
+  title: string,
+  fromIndex: number,
+  fromTotal: number,
+  targetTitles: string[]
+): number => {
+  if (targetTitles.length === 0) return 0
+
+  const ratio = fromTotal > 1 ? fromIndex / (fromTotal - 1) : 0
+  const estimated = Math.round(ratio * (targetTitles.length - 1))
+  const number = chapterNumber(title)
+  const name = chapterName(title)
+  const fullTitle = normalizeText(title)
+
+  let bestIndex = -1
+  let bestScore = 0
+
+  targetTitles.forEach((candidate, index) => {
+    if (normalizeText(candidate) === fullTitle) {
+      // 标题完全一致时优先选择离估算位置最近的
+      const score = 3 - Math.abs(index - estimated) / targetTitles.length
+      if (score > bestScore) {
+        bestScore = score
+        bestIndex = index
+      }
+      return
+    }
+
+    const candidateNumber = chapterNumber(candidate)
+    const nameScore = similarity(name, chapterName(candidate))
+    let score = 0
+
+    if (number !== null && candidateNumber === number) {
+      score = 1 + nameScore
+    } else if (nameScore >= 0.6) {
+      score = nameScore
+    }
+
+    // 离估算位置越远，得分越低
+    score -= Math.abs(index - estimated) / targetTitles.length * 0.5
+
+    if (score > bestScore) {
+      bestScore = score
+      bestIndex = index
+    }
+  })
+
+  if (bestIndex >= 0) return bestIndex
+  return Math.max(0, Math.min(estimated, targetTitles.length - 1))
+}
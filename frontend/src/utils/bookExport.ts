@@ -0,0 +1,243 @@
+import type { Book, BookChapter } from '@/api'
+import { getCachedChapters } from './chapterCache'
+import { createZip, type ZipEntry } from './zip'
+
+export type ExportFormat = 'epub' | 'txt'
+
+export interface ExportChapter {
+  index: number
+  title: string
+  // 未下载的章节为 null
+  content: string | null
+}
+
+export interface ExportCover {
+  data: Uint8Array
+  mimeType: string
+}
+
+const MISSING_TEXT = '（本章未下载）'
+
+const COVER_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp'
+}
+
+const splitParagraphs = (content: string) => {
+  return content
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(Boolean)
+}
+
+const escapeXml = (text: string) => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // XML 1.0 不允许的控制字符
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+}
+
+// 文件名中不能出现的字符
+export const safeFileName = (name: string) => {
+  return name.replace(/[\\/:*?"<>|]/g, '_').trim() || 'book'
+}
+
+/**
+ * 按目录合并离线章节
+ *
+ * 目录中存在但没有缓存的章节 content 为 null，由调用方决定是否继续导出。
+ */
+export const collectChapters = async (bookId: string, toc: BookChapter[]): Promise<ExportChapter[]> => {
+  const cached = new Map((await getCachedChapters(bookId)).map(chapter => [chapter.index, chapter]))
+
+  return toc.map((chapter, index) => ({
+    index,
+    title: chapter.title || cached.get(index)?.title || `第 ${index + 1} 章`,
+    content: cached.get(index)?.content ?? null
+  }))
+}
+
+// ==================== TXT ====================
+
+export const buildTxt = (book: Book, chapters: ExportChapter[]): string => {
+  const lines: string[] = [book.name]
+  if (book.author) lines.push(`作者：${book.author}`)
+  if (book.intro) lines.push('', ...splitParagraphs(book.intro).map(p => `　　${p}`))
+  lines.push('')
+
+  for (const chapter of chapters) {
+    lines.push('', chapter.title, '')
+    if (chapter.content === null) {
+      lines.push(`　　${MISSING_TEXT}`)
+    } else {
+      lines.push(...splitParagraphs(chapter.content).map(p => `　　${p}`))
+    }
+  }
+
+  // Windows 记事本需要 BOM 才能正确识别 UTF-8
+  return '\ufeff' + lines.join('\r\n') + '\r\n'
+}
+
+// ==================== EPUB ====================
+
+const STYLE_CSS = `body { margin: 0 5%; line-height: 1.8; }
+h1 { font-size: 1.4em; margin: 1.5em 0 1em; text-align: center; }
+p { margin: 0 0 0.6em; text-indent: 2em; }
+p.missing { color: #999; text-indent: 0; text-align: center; }
+.cover { margin: 0; padding: 0; text-align: center; }
+.cover img { max-width: 100%; max-height: 100%; }
+`
+
+const CONTAINER_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`
+
+const xhtml = (title: string, body: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="zh-CN" lang="zh-CN">
+<head>
+  <meta charset="UTF-8"/>
+  <title>${escapeXml(title)}</title>
+  <link rel="stylesheet" type="text/css" href="style.css"/>
+</head>
+<body>
+${body}
+</body>
+</html>
+`
+
+const chapterFile = (index: number) => `chapter-${String(index + 1).padStart(5, '0')}.xhtml`
+
+const chapterXhtml = (chapter: ExportChapter) => {
+  const paragraphs = chapter.content === null
+    ? [`  <p class="missing">${MISSING_TEXT}</p>`]
+    : splitParagraphs(chapter.content).map(p => `  <p>${escapeXml(p)}</p>`)
+  return xhtml(chapter.title, [`  <h1>${escapeXml(chapter.title)}</h1>`, ...paragraphs].join('\n'))
+}
+
+const navXhtml = (book: Book, chapters: ExportChapter[]) => {
+  const items = chapters
+    .map(chapter => `      <li><a href="${chapterFile(chapter.index)}">${escapeXml(chapter.title)}</a></li>`)
+    .join('\n')
+  return xhtml(book.name, `  <nav epub:type="toc" id="toc">
+    <h1>目录</h1>
+    <ol>
+${items}
+    </ol>
+  </nav>`)
+}
+
+// EPUB 2 阅读器使用的目录
+const tocNcx = (book: Book, identifier: string, chapters: ExportChapter[]) => {
+  const points = chapters
+    .map((chapter, order) => `    <navPoint id="nav-${order + 1}" playOrder="${order + 1}">
+      <navLabel><text>${escapeXml(chapter.title)}</text></navLabel>
+      <content src="${chapterFile(chapter.index)}"/>
+    </navPoint>`)
+    .join('\n')
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">
+  <head>
+    <meta name="dtb:uid" content="${escapeXml(identifier)}"/>
+  </head>
+  <docTitle><text>${escapeXml(book.name)}</text></docTitle>
+  <navMap>
+${points}
+  </navMap>
+</ncx>
+`
+}
+
+const contentOpf = (
+  book: Book,
+  identifier: string,
+  chapters: ExportChapter[],
+  coverFile: string | null,
+  coverType: string | null
+) => {
+  // dcterms:modified 不能带毫秒
+  const modified = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z')
+  const manifest = [
+    '    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>',
+    '    <item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>',
+    '    <item id="style" href="style.css" media-type="text/css"/>'
+  ]
+  const spine: string[] = []
+
+  if (coverFile && coverType) {
+    manifest.push(`    <item id="cover-image" href="${coverFile}" media-type="${coverType}" properties="cover-image"/>`)
+    manifest.push('    <item id="cover" href="cover.xhtml" media-type="application/xhtml+xml"/>')
+    spine.push('    <itemref idref="cover" linear="no"/>')
+  }
+  for (const chapter of chapters) {
+    const id = `chapter-${chapter.index + 1}`
+    manifest.push(`    <item id="${id}" href="${chapterFile(chapter.index)}" media-type="application/xhtml+xml"/>`)
+    spine.push(`    <itemref idref="${id}"/>`)
+  }
+
+  const metadata = [
+    `    <dc:identifier id="book-id">${escapeXml(identifier)}</dc:identifier>`,
+    `    <dc:title>${escapeXml(book.name)}</dc:title>`,
+    '    <dc:language>zh-CN</dc:language>',
+    `    <meta property="dcterms:modified">${modified}</meta>`
+  ]
+  if (book.author) metadata.push(`    <dc:creator>${escapeXml(book.author)}</dc:creator>`)
+  if (book.intro) metadata.push(`    <dc:description>${escapeXml(book.intro)}</dc:description>`)
+  if (coverFile) metadata.push('    <meta name="cover" content="cover-image"/>')
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="zh-CN">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+${metadata.join('\n')}
+  </metadata>
+  <manifest>
+${manifest.join('\n')}
+  </manifest>
+  <spine toc="ncx">
+${spine.join('\n')}
+  </spine>
+</package>
+`
+}
+
+export const buildEpub = (book: Book, chapters: ExportChapter[], cover?: ExportCover | null): Uint8Array => {
+  const identifier = `urn:moyue:book:${book.id}`
+  const coverExtension = cover ? COVER_EXTENSIONS[cover.mimeType] : undefined
+  const coverFile = cover && coverExtension ? `cover.${coverExtension}` : null
+
+  const entries: ZipEntry[] = [
+    // mimetype 必须是第一个文件
+    { path: 'mimetype', data: 'application/epub+zip' },
+    { path: 'META-INF/container.xml', data: CONTAINER_XML },
+    {
+      path: 'OEBPS/content.opf',
+      data: contentOpf(book, identifier, chapters, coverFile, coverFile ? cover!.mimeType : null)
+    },
+    { path: 'OEBPS/nav.xhtml', data: navXhtml(book, chapters) },
+    { path: 'OEBPS/toc.ncx', data: tocNcx(book, identifier, chapters) },
+    { path: 'OEBPS/style.css', data: STYLE_CSS }
+  ]
+
+  if (cover && coverFile) {
+    entries.push({ path: `OEBPS/${coverFile}`, data: cover.data })
+    entries.push({
+      path: 'OEBPS/cover.xhtml',
+      data: xhtml(book.name, `  <div class="cover"><img src="${coverFile}" alt="${escapeXml(book.name)}"/></div>`)
+    })
+  }
+
+  for (const chapter of chapters) {
+    entries.push({ path: `OEBPS/${chapterFile(chapter.index)}`, data: chapterXhtml(chapter) })
+  }
+
+  return createZip(entries)
+}
@@ -0,0 +1,123 @@
+import type { BookChapter } from '@/api'
+import {
+  dbGet,
+  dbSet,
+  dbPutMany,
+  dbGetAll,
+  dbGetAllKeys,
+  dbDelete,
+  dbDeleteRange,
+  STORE_CHAPTERS,
+  STORE_CHAPTER_SIZES,
+  STORE_TOCS
+} from './db'
+
+// 离线缓存的章节正文
+export interface CachedChapter {
+  bookId: string
+  index: number
+  title: string
+  content: string
+  // 正文字节数（UTF-16），用于统计占用空间
+  size: number
+  savedAt: number
+}
+
+// 章节字节数的单独记录，统计占用空间时只读取它
+interface CachedChapterSize {
+  bookId: string
+  size: number
+}
+
+// 离线缓存的目录（后端每次都从书源获取目录，离线时需要本地副本）
+export interface CachedToc {
+  bookId: string
+  chapters: BookChapter[]
+  savedAt: number
+}
+
+export interface BookCacheUsage {
+  bookId: string
+  chapterCount: number
+  bytes: number
+}
+
+const bookRange = (bookId: string) => IDBKeyRange.bound([bookId, 0], [bookId, Infinity])
+
+export const getCachedChapter = (bookId: string, index: number) => {
+  return dbGet<CachedChapter>(STORE_CHAPTERS, [bookId, index])
+}
+
+const toCachedChapter = (bookId: string, index: number, title: string, content: string): CachedChapter => ({
+  bookId,
+  index,
+  title,
+  content,
+  size: content.length * 2,
+  savedAt: Date.now()
+})
+
+// 章节和它的字节数在同一个事务中写入
+const chapterEntries = (chapter: CachedChapter): Array<[string, IDBValidKey, unknown]> => {
+  const key = [chapter.bookId, chapter.index]
+  const size: CachedChapterSize = { bookId: chapter.bookId, size: chapter.size }
+  return [[STORE_CHAPTERS, key, chapter], [STORE_CHAPTER_SIZES, key, size]]
+}
+
+export const saveCachedChapter = (bookId: string, index: number, title: string, content: string) => {
+  return dbPutMany(chapterEntries(toCachedChapter(bookId, index, title, content)))
+}
+
+// 批量保存章节（本地导入的书籍）
+export const saveCachedChapters = (bookId: string, chapters: Array<{ title: string; content: string }>) => {
+  return dbPutMany(
+    chapters.flatMap((chapter, index) => chapterEntries(toCachedChapter(bookId, index, chapter.title, chapter.content)))
+  )
+}
+
+// 一本书的全部离线章节，按章节序号排序
+export const getCachedChapters = (bookId: string) => {
+  return dbGetAll<CachedChapter>(STORE_CHAPTERS, bookRange(bookId))
+}
+
+// 已缓存的章节序号
+export const getCachedIndexes = async (bookId: string): Promise<number[]> => {
+  const keys = await dbGetAllKeys(STORE_CHAPTERS, bookRange(bookId))
+  return keys.map(key => (key as [string, number])[1])
+}
+
+export const getCachedToc = (bookId: string) => {
+  return dbGet<CachedToc>(STORE_TOCS, bookId)
+}
+
+export const saveCachedToc = (bookId: string, chapters: BookChapter[]) => {
+  const toc: CachedToc = {
+    bookId,
+    // 去掉响应式代理，IndexedDB 只接受普通对象
+    chapters: JSON.parse(JSON.stringify(chapters)),
+    savedAt: Date.now()
+  }
+  return dbSet(STORE_TOCS, bookId, toc)
+}
+
+// 删除一本书的全部离线数据
+export const removeBookCache = async (bookId: string) => {
+  await dbDeleteRange(STORE_CHAPTERS, bookRange(bookId))
+  await dbDeleteRange(STORE_CHAPTER_SIZES, bookRange(bookId))
+  await dbDelete(STORE_TOCS, bookId)
+}
+
+// 按书统计离线章节占用的空间，只读取字节数记录，不加载正文
+export const getCacheUsage = async (): Promise<BookCacheUsage[]> => {
+  const chapters = await dbGetAll<CachedChapterSize>(STORE_CHAPTER_SIZES)
+  const usage = new Map<string, BookCacheUsage>()
+
+  for (const chapter of chapters) {
+    const item = usage.get(chapter.bookId) ?? { bookId: chapter.bookId, chapterCount: 0, bytes: 0 }
+    item.chapterCount++
+    item.bytes += chapter.size
+    usage.set(chapter.bookId, item)
+  }
+
+  return [...usage.values()].sort((a, b) => b.bytes - a.bytes)
+}
@@ -0,0 +1,114 @@
+// 本地 IndexedDB 存储（后端未启动时也能读取的离线数据）
+
+const DB_NAME = 'moyue'
+const DB_VERSION = 5
+
+// 对象仓库名称，新增仓库时需要同时提升 DB_VERSION
+export const STORE_KV = 'kv'
+// 离线章节，主键为 [bookId, chapterIndex]
+export const STORE_CHAPTERS = 'chapters'
+// 离线章节的字节数，主键与 STORE_CHAPTERS 相同，统计占用空间时不用读取正文
+export const STORE_CHAPTER_SIZES = 'chapter-sizes'
+// 离线目录，主键为 bookId
+export const STORE_TOCS = 'tocs'
+// 书源检查历史，主键为 sourceId
+export const STORE_SOURCE_CHECKS = 'source-checks'
+// 书源修改历史，主键为 sourceId
+export const STORE_SOURCE_REVISIONS = 'source-revisions'
+
+const STORES = [STORE_KV, STORE_CHAPTERS, STORE_CHAPTER_SIZES, STORE_TOCS, STORE_SOURCE_CHECKS, STORE_SOURCE_REVISIONS]
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+    request.onupgradeneeded = event => {
+      const db = request.result
+      const hadSizes = db.objectStoreNames.contains(STORE_CHAPTER_SIZES)
+      for (const name of STORES) {
+        if (!db.objectStoreNames.contains(name)) {
+          db.createObjectStore(name)
+        }
+      }
+      // 旧版本已有的离线章节，升级时补上字节数
+      if (event.oldVersion > 0 && !hadSizes) {
+        const transaction = request.transaction!
+        const sizes = transaction.objectStore(STORE_CHAPTER_SIZES)
+        const cursor = transaction.objectStore(STORE_CHAPTERS).openCursor()
+        cursor.onsuccess = () => {
+          if (!cursor.result) return
+          const { bookId, size } = cursor.result.value
+          sizes.put({ bookId, size }, cursor.result.key)
+          cursor.result.continue()
+        }
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => {
+      dbPromise = null
+      reject(request.error)
+    }
+  })
+
+  return dbPromise
+}
+
+const run = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDatabase()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode)
+    const request = action(transaction.objectStore(storeName))
+    transaction.oncomplete = () => resolve(request.result as T)
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+export const dbGet = <T>(storeName: string, key: IDBValidKey) => {
+  return run<T | undefined>(storeName, 'readonly', store => store.get(key))
+}
+
+// 值需要可被结构化克隆，响应式对象请先转换为普通对象
+export const dbSet = (storeName: string, key: IDBValidKey, value: unknown) => {
+  return run<IDBValidKey>(storeName, 'readwrite', store => store.put(value, key))
+}
+
+// 在同一个事务中写入多个仓库，每项为 [仓库, 主键, 值]
+export const dbPutMany = async (entries: Array<[string, IDBValidKey, unknown]>) => {
+  const db = await openDatabase()
+  const storeNames = [...new Set(entries.map(([storeName]) => storeName))]
+  return new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(storeNames, 'readwrite')
+    for (const [storeName, key, value] of entries) {
+      transaction.objectStore(storeName).put(value, key)
+    }
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+export const dbDelete = (storeName: string, key: IDBValidKey) => {
+  return run<undefined>(storeName, 'readwrite', store => store.delete(key))
+}
+
+export const dbGetAll = <T>(storeName: string, query?: IDBKeyRange) => {
+  return run<T[]>(storeName, 'readonly', store => store.getAll(query))
+}
+
+export const dbGetAllKeys = (storeName: string, query?: IDBKeyRange) => {
+  return run<IDBValidKey[]>(storeName, 'readonly', store => store.getAllKeys(query))
+}
+
+// 删除范围内的所有记录，例如某本书的全部章节
+export const dbDeleteRange = (storeName: string, range: IDBKeyRange) => {
+  return run<undefined>(storeName, 'readwrite', store => store.delete(range))
+}
@@ -0,0 +1,76 @@
+import type { HttpExchange, HttpHeader } from '@/api'
+
+// 响应体可选的编码，TextDecoder 支持的名称
+export const CHARSETS = ['UTF-8', 'GBK', 'GB18030', 'Big5', 'Shift_JIS', 'EUC-KR', 'ISO-8859-1', 'UTF-16LE', 'UTF-16BE']
+
+// 由 OkHttp 自动设置的请求头，重放时不需要带上
+const AUTO_HEADERS = ['host', 'content-length', 'connection', 'accept-encoding']
+
+const base64ToBytes = (base64: string) => {
+  const binary = atob(base64)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return bytes
+}
+
+/**
+ * 按指定编码解码响应体，浏览器不支持的编码回退到 UTF-8
+ */
+export const decodeBody = (base64: string | null, charset: string | null) => {
+  if (!base64) return ''
+  const bytes = base64ToBytes(base64)
+  try {
+    return new TextDecoder(charset || 'utf-8').decode(bytes)
+  } catch {
+    return new TextDecoder().decode(bytes)
+  }
+}
+
+// 单引号包裹，内部的单引号写成 '\''
+const shellQuote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`
+
+/**
+ * 生成等价的 curl 命令，使用实际发出的请求头
+ */
+export const toCurl = (exchange: HttpExchange) => {
+  const parts = ['curl']
+  if (exchange.method !== 'GET') parts.push('-X', exchange.method)
+  parts.push(shellQuote(exchange.url))
+  let compressed = false
+  for (const header of exchange.requestHeaders) {
+    const name = header.name.toLowerCase()
+    if (name === 'accept-encoding') compressed = true
+    if (AUTO_HEADERS.includes(name)) continue
+    parts.push('-H', shellQuote(`${header.name}: ${header.value}`))
+  }
+  if (compressed) parts.push('--compressed')
+  if (exchange.requestBody) parts.push('--data-raw', shellQuote(exchange.requestBody))
+  // 跟随重定向，与 OkHttp 的行为一致
+  if (exchange.redirects.length > 0) parts.push('-L')
+  return parts.join(' ')
+}
+
+// 每行一个“名称: 值”
+export const formatHeaderLines = (headers: HttpHeader[]) => {
+  return headers
+    .filter(header => !AUTO_HEADERS.includes(header.name.toLowerCase()))
+    .map(header => `${header.name}: ${header.value}`)
+    .join('\n')
+}
+
+export const parseHeaderLines = (text: string) => {
+  const headers: Record<string, string> = {}
+  for (const line of text.split('\n')) {
+    const index = line.indexOf(':')
+    if (index <= 0) continue
+    const name = line.slice(0, index).trim()
+    if (name) headers[name] = line.slice(index + 1).trim()
+  }
+  return headers
+}
+
+export const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
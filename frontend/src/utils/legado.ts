@@ -0,0 +1,312 @@
+import type { BookSource, BookSourceRules, SourceImportItem } from '@/api'
+
+// 与后端 book_sources.source_id 的长度一致
+const SOURCE_ID_MAX_LENGTH = 100
+
+export type SourceImportStatus = 'new' | 'updated' | 'identical' | 'invalid'
+
+export interface SourceImportCandidate {
+  // 在导入数据中的序号（从 1 开始）
+  index: number
+  name: string
+  url: string
+  group: string
+  status: SourceImportStatus
+  // invalid 时为原因，updated 时为变化的字段
+  message: string
+  // invalid 时为 null
+  item: SourceImportItem | null
+  existing: BookSource | null
+}
+
+type RuleFields = Omit<BookSourceRules, 'id' | 'ruleId' | 'enabled'>
+
+export const RULE_FIELDS: Array<keyof RuleFields> = [
+  'searchUrl', 'searchList', 'searchName', 'searchAuthor', 'searchCoverUrl', 'searchBookUrl',
+  'bookUrl', 'bookInfo', 'chapterList', 'chapterName', 'chapterUrl', 'contentUrl', 'content',
+  'headers', 'charset'
+]
+
+export type RuleField = keyof RuleFields
+
+// 规则编辑表单，空字符串表示未设置
+export type RuleForm = Record<RuleField, string>
+
+export const toRuleForm = (rules?: Partial<BookSourceRules> | null): RuleForm => {
+  const form = {} as RuleForm
+  for (const field of RULE_FIELDS) form[field] = rules?.[field] ?? ''
+  return form
+}
+
+export const fromRuleForm = (form: RuleForm, ruleId: string, enabled = true): Omit<BookSourceRules, 'id'> => {
+  const rules: Omit<BookSourceRules, 'id'> = { ruleId, enabled }
+  for (const field of RULE_FIELDS) rules[field] = form[field].trim() || null
+  return rules
+}
+
+const SOURCE_FIELDS: Array<{ key: 'name' | 'url' | 'author' | 'group' | 'enabled' | 'weight'; label: string }> = [
+  { key: 'name', label: '名称' },
+  { key: 'url', label: '地址' },
+  { key: 'author', label: '作者' },
+  { key: 'group', label: '分组' },
+  { key: 'enabled', label: '启用' },
+  { key: 'weight', label: '权重' }
+]
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+const text = (value: unknown): string | null => {
+  if (typeof value === 'string') return value.trim() || null
+  if (typeof value === 'number') return String(value)
+  return null
+}
+
+// 空字符串与 null 视为相同
+const normalize = (value: unknown) => (value === '' || value === undefined ? null : value)
+
+/**
+ * 解析书源 JSON，支持单个书源或书源数组
+ */
+export const parseSourceJson = (json: string): unknown[] => {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(json.replace(/^\ufeff/, ''))
+  } catch {
+    throw new Error('JSON 格式错误')
+  }
+  if (Array.isArray(parsed)) return parsed
+  if (isObject(parsed)) return [parsed]
+  throw new Error('书源 JSON 应为对象或数组')
+}
+
+/**
+ * 订阅地址：支持直接的 http(s) 地址，以及阅读 App 的分享链接
+ * （legado://import/bookSource?src=... 、yuedu://booksource/importonline?src=...）
+ */
+export const resolveSubscriptionUrl = (input: string): string | null => {
+  const value = input.trim()
+  if (/^https?:\/\//i.test(value)) return value
+  const src = value.match(/[?&]src=([^&]+)/)?.[1]
+  if (!src) return null
+  const url = decodeURIComponent(src)
+  return /^https?:\/\//i.test(url) ? url : null
+}
+
+/**
+ * 由 bookSourceUrl 生成 sourceId
+ *
+ * sourceId 会出现在接口路径中，只保留字母、数字和 . _ -，同一地址总是得到同一 ID。
+ */
+export const sourceIdFromUrl = (url: string) => {
+  return url
+    .trim()
+    .replace(/^[a-z][a-z0-9+.-]*:\/\//i, '')
+    .replace(/[^A-Za-z0-9._-]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, SOURCE_ID_MAX_LENGTH)
+}
+
+// 书源分组沿用 Legado 的写法，多个分组用逗号（或分号）分隔
+export const splitGroups = (group?: string | null): string[] => {
+  if (!group) return []
+  return [...new Set(group.split(/[,，;；]/).map(name => name.trim()).filter(Boolean))]
+}
+
+export const joinGroups = (groups: string[]) => [...new Set(groups.map(name => name.trim()).filter(Boolean))].join(',')
+
+// Legado 的详情规则有多个字段，整体保存为 JSON
+const stringifyRule = (value: unknown): string | null => {
+  if (!isObject(value)) return text(value)
+  const fields = Object.entries(value).filter(([, field]) => text(field) !== null)
+  return fields.length > 0 ? JSON.stringify(Object.fromEntries(fields)) : null
+}
+
+/**
+ * Legado 书源转换为导入项
+ *
+ * 发现、登录等本应用不支持的字段会被忽略。
+ */
+const fromLegado = (raw: Record<string, unknown>): SourceImportItem => {
+  const url = text(raw.bookSourceUrl)
+  const name = text(raw.bookSourceName)
+  if (!url) throw new Error('缺少 bookSourceUrl')
+  if (!name) throw new Error('缺少 bookSourceName')
+
+  const sourceId = sourceIdFromUrl(url)
+  if (!sourceId) throw new Error('bookSourceUrl 无效')
+
+  const rule = (value: unknown): Record<string, unknown> => (isObject(value) ? value : {})
+  const search = rule(raw.ruleSearch)
+  const toc = rule(raw.ruleToc)
+  const content = rule(raw.ruleContent)
+
+  return {
+    source: {
+      sourceId,
+      name,
+      url,
+      author: text(raw.bookSourceComment),
+      group: text(raw.bookSourceGroup),
+      enabled: raw.enabled !== false,
+      weight: typeof raw.weight === 'number' ? raw.weight : 0
+    },
+    rules: {
+      ruleId: sourceId,
+      searchUrl: text(raw.searchUrl),
+      searchList: text(search.bookList),
+      searchName: text(search.name),
+      searchAuthor: text(search.author),
+      searchCoverUrl: text(search.coverUrl),
+      searchBookUrl: text(search.bookUrl),
+      bookUrl: text(raw.bookUrlPattern),
+      bookInfo: stringifyRule(raw.ruleBookInfo),
+      chapterList: text(toc.chapterList),
+      chapterName: text(toc.chapterName),
+      chapterUrl: text(toc.chapterUrl),
+      contentUrl: null,
+      content: text(content.content),
+      headers: stringifyRule(raw.header),
+      charset: null,
+      enabled: true
+    }
+  }
+}
+
+// 本应用导出的书源（sourceId/name 格式）
+const fromNative = (raw: Record<string, unknown>): SourceImportItem => {
+  const sourceId = text(raw.sourceId)
+  const name = text(raw.name)
+  if (!sourceId) throw new Error('缺少 sourceId')
+  if (!name) throw new Error('缺少 name')
+  if (!/^[A-Za-z0-9._-]+$/.test(sourceId) || sourceId.length > SOURCE_ID_MAX_LENGTH) {
+    throw new Error('sourceId 只能包含字母、数字和 . _ -')
+  }
+
+  const rules = isObject(raw.rules) ? raw.rules : null
+  const ruleFields: Partial<Record<keyof RuleFields, string | null>> = {}
+  if (rules) {
+    for (const field of RULE_FIELDS) ruleFields[field] = text(rules[field])
+  }
+
+  return {
+    source: {
+      sourceId,
+      name,
+      icon: text(raw.icon),
+      url: text(raw.url),
+      author: text(raw.author),
+      group: text(raw.group),
+      enabled: raw.enabled !== false,
+      weight: typeof raw.weight === 'number' ? raw.weight : 0
+    },
+    rules: rules && {
+      ...ruleFields,
+      ruleId: sourceId,
+      enabled: rules.enabled !== false
+    }
+  }
+}
+
+export const toImportItem = (raw: unknown): SourceImportItem => {
+  if (!isObject(raw)) throw new Error('不是书源对象')
+  return 'bookSourceUrl' in raw || 'bookSourceName' in raw ? fromLegado(raw) : fromNative(raw)
+}
+
+// 返回变化的字段名称，没有变化时为空
+const changedFields = (item: SourceImportItem, existing: BookSource, rules?: BookSourceRules) => {
+  const changes = SOURCE_FIELDS
+    .filter(({ key }) => normalize(item.source[key]) !== normalize(existing[key]))
+    .map(({ label }) => label)
+
+  if (item.rules) {
+    const ruleChanged = RULE_FIELDS.some(field => normalize(item.rules?.[field]) !== normalize(rules?.[field]))
+    if (ruleChanged) changes.push('规则')
+  }
+  return changes
+}
+
+// 订阅刷新时保留的本地修改
+const LOCAL_FIELDS = ['enabled', 'weight', 'group'] as const
+
+export interface DiffOptions {
+  // 已有书源保留本地的启用状态、权重和分组
+  keepLocalFields?: boolean
+}
+
+/**
+ * 与已有书源比较
+ *
+ * Legado 书源按 bookSourceUrl 与已有书源的地址匹配，匹配到时沿用已有的 sourceId；
+ * 其他书源按 sourceId 匹配。导入数据中重复的书源只保留第一个。
+ */
+export const diffSources = (
+  raws: unknown[],
+  existingSources: BookSource[],
+  existingRules: BookSourceRules[],
+  options: DiffOptions = {}
+): SourceImportCandidate[] => {
+  const byId = new Map(existingSources.map(source => [source.sourceId, source]))
+  const byUrl = new Map<string, BookSource>()
+  for (const source of existingSources) {
+    if (source.url && !byUrl.has(source.url)) byUrl.set(source.url, source)
+  }
+  const rulesById = new Map(existingRules.map(rules => [rules.ruleId, rules]))
+  const seen = new Map<string, number>()
+
+  return raws.map((raw, offset): SourceImportCandidate => {
+    const index = offset + 1
+    const fallback: Record<string, unknown> = isObject(raw) ? raw : {}
+    let item: SourceImportItem
+    try {
+      item = toImportItem(raw)
+    } catch (error) {
+      return {
+        index,
+        name: text(fallback.bookSourceName) || text(fallback.name) || '',
+        url: text(fallback.bookSourceUrl) || text(fallback.url) || '',
+        group: '',
+        status: 'invalid',
+        message: error instanceof Error ? error.message : '无法解析',
+        item: null,
+        existing: null
+      }
+    }
+
+    const isLegado = 'bookSourceUrl' in fallback
+    const existing = (isLegado && item.source.url ? byUrl.get(item.source.url) : undefined)
+      ?? byId.get(item.source.sourceId)
+      ?? null
+    if (existing && existing.sourceId !== item.source.sourceId) {
+      item.source.sourceId = existing.sourceId
+      if (item.rules) item.rules.ruleId = existing.sourceId
+    }
+    if (existing && options.keepLocalFields) {
+      for (const field of LOCAL_FIELDS) {
+        Object.assign(item.source, { [field]: existing[field] })
+      }
+    }
+
+    const base = {
+      index,
+      name: item.source.name,
+      url: item.source.url || '',
+      group: item.source.group || ''
+    }
+
+    const duplicate = seen.get(item.source.sourceId)
+    if (duplicate) {
+      return { ...base, status: 'invalid', message: `与第 ${duplicate} 项重复`, item: null, existing }
+    }
+    seen.set(item.source.sourceId, index)
+
+    if (!existing) {
+      return { ...base, status: 'new', message: '', item, existing }
+    }
+    const changes = changedFields(item, existing, rulesById.get(existing.sourceId))
+    return changes.length > 0
+      ? { ...base, status: 'updated', message: changes.join('、'), item, existing }
+      : { ...base, status: 'identical', message: '', item, existing }
+  })
+}
@@ -0,0 +1,426 @@
+import * as monaco from 'monaco-editor'
+import { debugApi } from '@/api'
+
+/**
+ * Monaco 中的 Legado 规则语言
+ *
+ * 规则由多种片段组成：JSOUP 选择器（默认）、@XPath: 或 / 开头的 XPath、
+ * @Json: 或 $. 开头的 JSONPath、## 之后的正则替换，以及 @js:、<js></js>、{{}} 中的 JavaScript。
+ */
+
+export const LEGADO_LANGUAGE_ID = 'legado'
+
+const MARKER_OWNER = 'legado-js'
+
+// 输入停止后再校验，避免每次按键都请求后端
+const VALIDATE_DELAY = 600
+
+interface JsExtensionDoc {
+  name: string
+  params: string[]
+  doc: string
+}
+
+// 与后端 JsExtensions.getExtensions() 保持一致，规则中通过 java.xxx() 调用
+export const JS_EXTENSIONS: JsExtensionDoc[] = [
+  { name: 'base64Encode', params: ['input'], doc: 'Base64 编码' },
+  { name: 'base64Decode', params: ['input'], doc: 'Base64 解码' },
+  { name: 'md5', params: ['input'], doc: 'MD5 摘要（32 位小写）' },
+  { name: 'sha1', params: ['input'], doc: 'SHA-1 摘要' },
+  { name: 'sha256', params: ['input'], doc: 'SHA-256 摘要' },
+  { name: 'urlEncode', params: ['input'], doc: 'URL 编码（UTF-8）' },
+  { name: 'urlDecode', params: ['input'], doc: 'URL 解码（UTF-8）' },
+  { name: 'aesEncode', params: ['data', 'key', 'iv'], doc: 'AES 加密，iv 可省略' },
+  { name: 'aesDecode', params: ['data', 'key', 'iv'], doc: 'AES 解密，iv 可省略' },
+  { name: 'desEncode', params: ['data', 'key'], doc: '3DES 加密' },
+  { name: 'desDecode', params: ['data', 'key'], doc: '3DES 解密' },
+  { name: 'rsaEncode', params: ['data', 'key'], doc: 'RSA 公钥加密' },
+  { name: 'rsaDecode', params: ['data', 'key'], doc: 'RSA 私钥解密' },
+  { name: 'regexMatch', params: ['regex', 'input'], doc: '是否匹配正则' },
+  { name: 'regexMatchAll', params: ['regex', 'input'], doc: '返回所有匹配的文本' },
+  { name: 'regexReplace', params: ['regex', 'replacement', 'input'], doc: '正则替换' },
+  { name: 'regexSplit', params: ['regex', 'input'], doc: '按正则分割' },
+  { name: 'formatDate', params: ['timestamp', 'pattern'], doc: '格式化时间戳，默认 yyyy-MM-dd HH:mm:ss' },
+  { name: 'parseDate', params: ['dateStr', 'pattern'], doc: '解析日期为时间戳（毫秒）' },
+  { name: 'currentTime', params: [], doc: '当前时间戳（毫秒）' },
+  { name: 'substring', params: ['str', 'start', 'end'], doc: '截取字符串' },
+  { name: 'substringBefore', params: ['str', 'separator'], doc: '分隔符之前的部分' },
+  { name: 'substringAfter', params: ['str', 'separator'], doc: '分隔符之后的部分' },
+  { name: 'substringBetween', params: ['str', 'start', 'end'], doc: '两个分隔符之间的部分' },
+  { name: 'trim', params: ['str'], doc: '去除首尾空白' },
+  { name: 'replaceAll', params: ['str', 'target', 'replacement'], doc: '替换全部（非正则）' },
+  { name: 'replaceFirst', params: ['str', 'target', 'replacement'], doc: '替换第一个（非正则）' },
+  { name: 'split', params: ['str', 'delimiter'], doc: '分割字符串' },
+  { name: 'join', params: ['list', 'delimiter'], doc: '连接字符串列表' },
+  { name: 'map', params: ['list', 'func'], doc: '映射列表' },
+  { name: 'filter', params: ['list', 'func'], doc: '过滤列表' },
+  { name: 'reduce', params: ['list', 'func', 'initial'], doc: '归约列表' },
+  { name: 'find', params: ['list', 'func'], doc: '查找第一个满足条件的元素' },
+  { name: 'contains', params: ['list', 'item'], doc: '列表是否包含元素' },
+  { name: 'sortBy', params: ['list', 'func'], doc: '按函数返回值排序' },
+  { name: 'reverse', params: ['list'], doc: '反转列表' },
+  { name: 'distinct', params: ['list'], doc: '去重' },
+  { name: 'jsonParse', params: ['json'], doc: '解析 JSON' },
+  { name: 'jsonStringify', params: ['obj'], doc: '序列化为 JSON' },
+  { name: 'parseHtml', params: ['html'], doc: '解析 HTML 为 Document' },
+  { name: 'selectElements', params: ['html', 'selector'], doc: '按 CSS 选择器选择元素' },
+  { name: 'getElementText', params: ['html', 'selector'], doc: '选择器匹配元素的文本' },
+  { name: 'getElementAttr', params: ['html', 'selector', 'attr'], doc: '选择器匹配元素的属性' },
+  { name: 'getHtml', params: ['element'], doc: '元素的 HTML' },
+  { name: 'getText', params: ['element'], doc: '元素的文本' },
+  { name: 'getAttr', params: ['element', 'attr'], doc: '元素的属性' },
+  { name: 'getId', params: ['element'], doc: '元素的 id' },
+  { name: 'getClass', params: ['element'], doc: '元素的 class' },
+  { name: 'hasClass', params: ['element', 'className'], doc: '元素是否有指定 class' },
+  { name: 'removeAttr', params: ['element', 'attr'], doc: '移除元素属性' },
+  { name: 'setAttr', params: ['element', 'attr', 'value'], doc: '设置元素属性' },
+  { name: 'html', params: ['html'], doc: '解析 HTML 为 Document' },
+  { name: 'text', params: ['html'], doc: 'HTML 的纯文本' },
+  { name: 'attr', params: ['html', 'selector', 'attr'], doc: '选择器匹配元素的属性' },
+  { name: 'log', params: ['...messages'], doc: '输出日志' },
+  { name: 'error', params: ['...messages'], doc: '输出错误日志' },
+  { name: 'warn', params: ['...messages'], doc: '输出警告日志' },
+  { name: 'debug', params: ['...messages'], doc: '输出调试日志' },
+  { name: 'info', params: ['...messages'], doc: '输出信息日志' }
+]
+
+// 规则片段的前缀
+const RULE_PREFIXES = [
+  { label: '@js:', doc: '之后的内容作为 JavaScript 执行，result 为前面规则的结果' },
+  { label: '@XPath:', doc: 'XPath 规则' },
+  { label: '@Json:', doc: 'JSONPath 规则' },
+  { label: '@css:', doc: 'CSS 选择器规则' },
+  { label: '@get:{key}', doc: '读取 @put 保存的变量' },
+  { label: '@put:{key:rule}', doc: '保存规则结果供之后的规则读取' }
+]
+
+// JSOUP 规则中的选择类型和取值
+const JSOUP_KEYWORDS = [
+  { label: 'class.', doc: '按 class 选择，例如 class.item.0' },
+  { label: 'id.', doc: '按 id 选择' },
+  { label: 'tag.', doc: '按标签选择，例如 tag.a' },
+  { label: 'text.', doc: '按包含的文本选择' },
+  { label: 'children', doc: '子元素' }
+]
+
+const JSOUP_EXTRACTORS = [
+  { label: 'text', doc: '元素及子元素的文本' },
+  { label: 'ownText', doc: '元素自身的文本' },
+  { label: 'textNodes', doc: '文本节点，按行连接' },
+  { label: 'html', doc: '元素的 HTML（去掉 script 和 style）' },
+  { label: 'all', doc: '元素的完整 HTML' },
+  { label: 'href', doc: 'href 属性' },
+  { label: 'src', doc: 'src 属性' }
+]
+
+// JavaScript 中可用的变量
+const JS_VARIABLES = [
+  { label: 'java', doc: '扩展函数对象' },
+  { label: 'result', doc: '前面规则的结果' },
+  { label: 'baseUrl', doc: '当前页面地址' },
+  { label: 'key', doc: '搜索关键字' },
+  { label: 'page', doc: '搜索页码' },
+  { label: 'book', doc: '当前书籍' },
+  { label: 'chapter', doc: '当前章节' },
+  { label: 'source', doc: '当前书源' }
+]
+
+const monarchLanguage: monaco.languages.IMonarchLanguage = {
+  defaultToken: '',
+  tokenPostfix: '.legado',
+  brackets: [
+    { open: '[', close: ']', token: 'delimiter.square' },
+    { open: '(', close: ')', token: 'delimiter.parenthesis' }
+  ],
+  tokenizer: {
+    root: [
+      [/<js>/, { token: 'keyword.js', next: '@jsBlock', nextEmbedded: 'javascript' }],
+      [/<\/js>/, 'keyword.js'],
+      [/@js:/, { token: 'keyword.js', next: '@jsRest', nextEmbedded: 'javascript' }],
+      [/\{\{/, { token: 'delimiter.template', next: '@template', nextEmbedded: 'javascript' }],
+      [/\}\}/, 'delimiter.template'],
+      [/@(XPath|xpath):/, { token: 'keyword.xpath', next: '@xpath' }],
+      [/^\//, { token: '@rematch', next: '@xpath' }],
+      [/@(Json|json):/, { token: 'keyword.json', next: '@jsonPath' }],
+      [/^\$[.[]/, { token: '@rematch', next: '@jsonPath' }],
+      { include: '@common' },
+      [/@(css|CSS):/, 'keyword.css'],
+      [/\b(class|id|tag|text)(?=\.)/, 'keyword'],
+      [/\bchildren\b/, 'keyword'],
+      [/(@)(text|ownText|textNodes|html|all)\b/, ['delimiter', 'type']],
+      [/@/, 'delimiter'],
+      [/\.-?\d+(:-?\d+)*|!-?\d+(:-?\d+)*/, 'number'],
+      [/[\w一-龥-]+/, 'identifier'],
+      [/./, '']
+    ],
+    // 各种规则共有的部分
+    common: [
+      [/&&|\|\||%%/, 'operator'],
+      [/(##)([^#]*)/, ['regexp.delimiter', 'regexp']],
+      [/@(get|put):\{[^}]*\}/, 'variable.predefined'],
+      [/\{\$\.[^}]*\}/, 'variable'],
+      [/"[^"]*"|'[^']*'/, 'string']
+    ],
+    // 遇到连接符或其他片段时回到默认规则
+    xpath: [
+      [/&&|\|\||%%|##|@js:|<js>|\{\{/, { token: '@rematch', next: '@pop' }],
+      [/\/\/?/, 'delimiter.xpath'],
+      [/@[\w-]+/, 'attribute.name'],
+      [/[\w-]+\(\)/, 'predefined'],
+      [/[[\]()]/, '@brackets'],
+      [/"[^"]*"|'[^']*'/, 'string'],
+      [/\d+/, 'number'],
+      [/[\w-]+/, 'tag'],
+      [/./, '']
+    ],
+    jsonPath: [
+      [/&&|\|\||%%|##|@js:|<js>|\{\{/, { token: '@rematch', next: '@pop' }],
+      [/@(Json|json):/, 'keyword.json'],
+      [/\$/, 'keyword.json'],
+      [/\.\.?/, 'delimiter'],
+      [/\[[^\]]*\]/, 'number'],
+      [/\*/, 'keyword'],
+      [/[\w一-龥-]+/, 'variable'],
+      [/./, '']
+    ],
+    jsBlock: [
+      [/<\/js>/, { token: '@rematch', next: '@pop', nextEmbedded: '@pop' }],
+      [/[^<]+/, ''],
+      [/</, '']
+    ],
+    // @js: 之后直到规则结束都是 JavaScript
+    jsRest: [
+      [/[^\s\S]/, '']
+    ],
+    template: [
+      [/\}\}/, { token: '@rematch', next: '@pop', nextEmbedded: '@pop' }],
+      [/[^}]+/, ''],
+      [/\}/, '']
+    ]
+  }
+}
+
+const languageConfiguration: monaco.languages.LanguageConfiguration = {
+  brackets: [['[', ']'], ['(', ')'], ['{{', '}}']],
+  autoClosingPairs: [
+    { open: '[', close: ']' },
+    { open: '(', close: ')' },
+    { open: '{{', close: '}}' },
+    { open: '<js>', close: '</js>' },
+    { open: '"', close: '"' },
+    { open: "'", close: "'" }
+  ]
+}
+
+// 当前位置是否在 JavaScript 片段中
+const isInJs = (textBefore: string) => {
+  if (textBefore.includes('@js:')) return true
+  const lastOpen = textBefore.lastIndexOf('<js>')
+  if (lastOpen > textBefore.lastIndexOf('</js>')) return true
+  return textBefore.lastIndexOf('{{') > textBefore.lastIndexOf('}}')
+}
+
+const completionProvider: monaco.languages.CompletionItemProvider = {
+  triggerCharacters: ['.', '@'],
+  provideCompletionItems: (model, position) => {
+    const textBefore = model.getValueInRange({
+      startLineNumber: 1,
+      startColumn: 1,
+      endLineNumber: position.lineNumber,
+      endColumn: position.column
+    })
+    const word = model.getWordUntilPosition(position)
+    const range = new monaco.Range(position.lineNumber, word.startColumn, position.lineNumber, word.endColumn)
+    const { CompletionItemKind, CompletionItemInsertTextRule } = monaco.languages
+
+    if (/\bjava\.\w*$/.test(textBefore)) {
+      return {
+        suggestions: JS_EXTENSIONS.map(extension => ({
+          label: extension.name,
+          kind: CompletionItemKind.Method,
+          detail: `java.${extension.name}(${extension.params.join(', ')})`,
+          documentation: extension.doc,
+          insertText: `${extension.name}(${extension.params
+            .map((param, index) => `\${${index + 1}:${param.replace('...', '')}}`)
+            .join(', ')})`,
+          insertTextRules: CompletionItemInsertTextRule.InsertAsSnippet,
+          range
+        }))
+      }
+    }
+
+    if (isInJs(textBefore)) {
+      return {
+        suggestions: JS_VARIABLES.map(variable => ({
+          label: variable.label,
+          kind: CompletionItemKind.Variable,
+          documentation: variable.doc,
+          insertText: variable.label,
+          range
+        }))
+      }
+    }
+
+    // @ 之后补全片段前缀和取值，@ 本身已经输入
+    if (textBefore.slice(0, textBefore.length - word.word.length).endsWith('@')) {
+      return {
+        suggestions: [
+          ...RULE_PREFIXES.map(prefix => ({
+            label: prefix.label,
+            kind: CompletionItemKind.Keyword,
+            documentation: prefix.doc,
+            insertText: prefix.label.slice(1),
+            range
+          })),
+          ...JSOUP_EXTRACTORS.map(extractor => ({
+            label: extractor.label,
+            kind: CompletionItemKind.Property,
+            documentation: extractor.doc,
+            insertText: extractor.label,
+            range
+          }))
+        ]
+      }
+    }
+
+    return {
+      suggestions: JSOUP_KEYWORDS.map(keyword => ({
+        label: keyword.label,
+        kind: CompletionItemKind.Keyword,
+        documentation: keyword.doc,
+        insertText: keyword.label,
+        range
+      }))
+    }
+  }
+}
+
+let registered = false
+
+// 注册语言，重复调用无影响
+export const registerLegadoLanguage = () => {
+  if (registered) return
+  registered = true
+  monaco.languages.register({ id: LEGADO_LANGUAGE_ID })
+  monaco.languages.setMonarchTokensProvider(LEGADO_LANGUAGE_ID, monarchLanguage)
+  monaco.languages.setLanguageConfiguration(LEGADO_LANGUAGE_ID, languageConfiguration)
+  monaco.languages.registerCompletionItemProvider(LEGADO_LANGUAGE_ID, completionProvider)
+}
+
+export interface JsSegment {
+  code: string
+  // 在规则中的起始偏移
+  offset: number
+}
+
+// {{}} 中也可能是规则（例如 {{$.name}}、{{@css:a@text}}），这类片段不按 JavaScript 校验
+const isRuleTemplate = (code: string) => /^\s*(\$\.|\$\[|@|\/\/)/.test(code)
+
+/**
+ * 取出规则中的 JavaScript 片段
+ *
+ * <js></js> 和 {{}} 可以出现多次；@js: 之后直到规则结束都是 JavaScript。
+ */
+export const extractJsSegments = (rule: string): JsSegment[] => {
+  const segments: JsSegment[] = []
+
+  for (const match of rule.matchAll(/<js>([\s\S]*?)<\/js>/g)) {
+    segments.push({ code: match[1], offset: match.index! + '<js>'.length })
+  }
+  for (const match of rule.matchAll(/\{\{([\s\S]*?)\}\}/g)) {
+    if (!isRuleTemplate(match[1])) segments.push({ code: match[1], offset: match.index! + 2 })
+  }
+
+  const jsIndex = rule.indexOf('@js:')
+  if (jsIndex !== -1) {
+    segments.push({ code: rule.slice(jsIndex + '@js:'.length), offset: jsIndex + '@js:'.length })
+  }
+
+  return segments.filter(segment => segment.code.trim() !== '')
+}
+
+// Rhino 的错误信息形如 "missing ; before statement (source#2)"
+const errorLine = (message: string) => {
+  const match = message.match(/#(\d+)\)?\s*$/)
+  return match ? Number(match[1]) : null
+}
+
+const toMarker = (model: monaco.editor.ITextModel, segment: JsSegment, message: string): monaco.editor.IMarkerData => {
+  const start = model.getPositionAt(segment.offset)
+  const end = model.getPositionAt(segment.offset + segment.code.length)
+  const line = errorLine(message)
+  if (line === null || line < 1) {
+    return {
+      severity: monaco.MarkerSeverity.Error,
+      message,
+      startLineNumber: start.lineNumber,
+      startColumn: start.column,
+      endLineNumber: end.lineNumber,
+      endColumn: end.column
+    }
+  }
+
+  const lineNumber = Math.min(start.lineNumber + line - 1, end.lineNumber)
+  return {
+    severity: monaco.MarkerSeverity.Error,
+    message,
+    startLineNumber: lineNumber,
+    startColumn: lineNumber === start.lineNumber ? start.column : 1,
+    endLineNumber: lineNumber,
+    endColumn: lineNumber === end.lineNumber ? end.column : model.getLineMaxColumn(lineNumber)
+  }
+}
+
+// 用后端的 Rhino 校验 JavaScript 片段，请求失败时不显示诊断
+const validateModel = async (model: monaco.editor.ITextModel) => {
+  const version = model.getVersionId()
+  const segments = extractJsSegments(model.getValue())
+  const markers: monaco.editor.IMarkerData[] = []
+
+  for (const segment of segments) {
+    try {
+      const result = await debugApi.validateJs(segment.code)
+      if (!result.valid) markers.push(toMarker(model, segment, result.error || '语法错误'))
+    } catch {
+      return
+    }
+    // 校验期间内容已变化，交给下一次校验
+    if (model.isDisposed() || model.getVersionId() !== version) return
+  }
+
+  monaco.editor.setModelMarkers(model, MARKER_OWNER, markers)
+}
+
+/**
+ * 为编辑器启用 JavaScript 片段的诊断
+ *
+ * 只在模型语言为 legado 时校验，返回值用于取消监听。
+ */
+export const attachLegadoValidation = (editor: monaco.editor.ICodeEditor): monaco.IDisposable => {
+  let timer: ReturnType<typeof setTimeout> | undefined
+
+  const schedule = () => {
+    clearTimeout(timer)
+    const model = editor.getModel()
+    if (!model) return
+    if (model.getLanguageId() !== LEGADO_LANGUAGE_ID) {
+      monaco.editor.setModelMarkers(model, MARKER_OWNER, [])
+      return
+    }
+    timer = setTimeout(() => validateModel(model), VALIDATE_DELAY)
+  }
+
+  const listeners = [
+    editor.onDidChangeModelContent(schedule),
+    editor.onDidChangeModelLanguage(schedule),
+    editor.onDidChangeModel(schedule)
+  ]
+  schedule()
+
+  return {
+    dispose: () => {
+      clearTimeout(timer)
+      listeners.forEach(listener => listener.dispose())
+    }
+  }
+}
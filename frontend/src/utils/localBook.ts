@@ -0,0 +1,321 @@
+import { ZipArchive } from './unzip'
+
+// 本地导入的书籍使用此前缀作为 bookUrl，没有书源，目录和正文保存在 IndexedDB
+export const LOCAL_BOOK_PREFIX = 'local://'
+
+export const isLocalBook = (book: { bookUrl?: string | null }) => {
+  return !!book.bookUrl?.startsWith(LOCAL_BOOK_PREFIX)
+}
+
+export interface LocalChapter {
+  title: string
+  content: string
+}
+
+export interface ParsedLocalBook {
+  name: string
+  author: string
+  intro: string
+  chapters: LocalChapter[]
+}
+
+export type LocalBookFormat = 'txt' | 'epub'
+
+export const localBookFormat = (fileName: string): LocalBookFormat | null => {
+  const extension = fileName.split('.').pop()?.toLowerCase()
+  return extension === 'txt' || extension === 'epub' ? extension : null
+}
+
+// 从文件名推断书名和作者，如“《书名》作者：某某.txt”、“书名 - 某某.txt”
+export const parseFileName = (fileName: string) => {
+  const base = fileName.replace(/\.[^.]+$/, '').trim()
+  const quoted = base.match(/《(.+?)》(?:.*?作者[:：]?\s*(.+))?/)
+  if (quoted) return { name: quoted[1].trim(), author: quoted[2]?.trim() || '' }
+
+  const parts = base.split(/\s+[-—_]\s+/)
+  if (parts.length === 2) return { name: parts[0].trim(), author: parts[1].trim() }
+  return { name: base, author: '' }
+}
+
+// ==================== TXT ====================
+
+export type TextEncodingName = 'utf-8' | 'gb18030' | 'gbk' | 'big5' | 'utf-16le' | 'utf-16be'
+
+export const TEXT_ENCODINGS: Array<{ label: string; value: TextEncodingName }> = [
+  { label: 'UTF-8', value: 'utf-8' },
+  { label: 'GB18030', value: 'gb18030' },
+  { label: 'GBK', value: 'gbk' },
+  { label: 'Big5（繁体）', value: 'big5' },
+  { label: 'UTF-16 LE', value: 'utf-16le' },
+  { label: 'UTF-16 BE', value: 'utf-16be' }
+]
+
+/**
+ * 检测文本编码
+ *
+ * 有 BOM 时直接使用；否则尝试严格按 UTF-8 解码，失败则视为 GB18030（兼容 GBK/GB2312）。
+ */
+export const detectEncoding = (data: Uint8Array): TextEncodingName => {
+  if (data[0] === 0xef && data[1] === 0xbb && data[2] === 0xbf) return 'utf-8'
+  if (data[0] === 0xff && data[1] === 0xfe) return 'utf-16le'
+  if (data[0] === 0xfe && data[1] === 0xff) return 'utf-16be'
+
+  try {
+    // 只检查开头部分，避免大文件解码两次；stream 模式下末尾被截断的字符不会报错
+    const sample = data.subarray(0, 1024 * 1024)
+    new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: sample.length < data.length })
+    return 'utf-8'
+  } catch {
+    return 'gb18030'
+  }
+}
+
+export const decodeText = (data: Uint8Array, encoding: TextEncodingName) => {
+  // TextDecoder 默认会去掉 BOM
+  return new TextDecoder(encoding).decode(data)
+}
+
+// 常用章节标题规则
+export const CHAPTER_PATTERNS = [
+  {
+    label: '第X章/节/回',
+    value: '^\\s*第\\s*[0-9零〇一二两三四五六七八九十百千万]+\\s*[章节回].{0,30}$'
+  },
+  {
+    label: '第X章 + 卷/序章/番外',
+    value: '^\\s*(第\\s*[0-9零〇一二两三四五六七八九十百千万]+\\s*[章节回卷集部篇]|序章|序言|楔子|引子|前言|番外|尾声|后记).{0,30}$'
+  },
+  {
+    label: 'Chapter X',
+    value: '^\\s*(chapter|CHAPTER|Chapter)\\s*\\d+.{0,40}$'
+  },
+  {
+    label: '纯数字序号（如 1. 标题）',
+    value: '^\\s*\\d{1,5}\\s*[.、．]\\s*\\S.{0,30}$'
+  }
+]
+
+export const DEFAULT_CHAPTER_PATTERN = CHAPTER_PATTERNS[1].value
+
+// 没有匹配到章节标题时按固定长度分段
+const FALLBACK_CHAPTER_LENGTH = 10000
+
+export const compileChapterPattern = (pattern: string): RegExp | null => {
+  try {
+    return new RegExp(pattern)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * 按章节标题规则切分正文
+ *
+ * 第一个标题之前的内容作为“前言”；完全匹配不到标题时按固定长度分段。
+ */
+export const splitTextChapters = (text: string, pattern: RegExp): LocalChapter[] => {
+  const lines = text.split(/\r?\n/)
+  const chapters: LocalChapter[] = []
+  let title = '前言'
+  let buffer: string[] = []
+
+  const flush = () => {
+    const content = buffer.join('\n').trim()
+    if (content || chapters.length > 0 || title !== '前言') {
+      chapters.push({ title, content })
+    }
+    buffer = []
+  }
+
+  for (const line of lines) {
+    // 过长的行不可能是标题
+    if (line.length <= 60 && pattern.test(line)) {
+      flush()
+      title = line.trim()
+    } else {
+      buffer.push(line)
+    }
+  }
+  flush()
+
+  if (chapters.length <= 1) {
+    const content = chapters[0]?.content ?? text.trim()
+    const result: LocalChapter[] = []
+    for (let i = 0; i < content.length; i += FALLBACK_CHAPTER_LENGTH) {
+      result.push({
+        title: `第 ${result.length + 1} 节`,
+        content: content.slice(i, i + FALLBACK_CHAPTER_LENGTH)
+      })
+    }
+    return result
+  }
+
+  return chapters
+}
+
+// 正文开头常有“作者：xxx”和“内容简介”
+export const extractTextMeta = (text: string) => {
+  const head = text.slice(0, 3000)
+  const author = head.match(/作\s*者\s*[:：]\s*(\S{1,30})/)?.[1] || ''
+  const intro = head.match(/(?:内容简介|简介)\s*[:：]?\s*\n?([\s\S]{1,500}?)(?:\n\s*\n|$)/)?.[1]?.trim() || ''
+  return { author, intro }
+}
+
+// ==================== EPUB ====================
+
+const parseXml = (text: string) => new DOMParser().parseFromString(text, 'application/xml')
+
+// 解析 XHTML，遇到不规范的文档退回 HTML 解析
+const parseXhtml = (text: string) => {
+  const doc = new DOMParser().parseFromString(text, 'application/xhtml+xml')
+  return doc.getElementsByTagName('parsererror').length > 0
+    ? new DOMParser().parseFromString(text, 'text/html')
+    : doc
+}
+
+// 按命名空间无关的本地名查找元素
+const elements = (root: Document | Element, localName: string) => {
+  return Array.from(root.getElementsByTagNameNS('*', localName))
+}
+
+// 相对路径转为 ZIP 内的绝对路径
+const resolvePath = (base: string, href: string) => {
+  const parts = base.split('/').slice(0, -1)
+  for (const segment of decodeURIComponent(href.split('#')[0]).split('/')) {
+    if (segment === '..') parts.pop()
+    else if (segment && segment !== '.') parts.push(segment)
+  }
+  return parts.join('/')
+}
+
+const BLOCK_TAGS = new Set([
+  'p', 'div', 'br', 'li', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote', 'pre', 'tr', 'section', 'article'
+])
+
+// 提取正文文本，块级元素换行
+const extractText = (node: Node): string => {
+  let text = ''
+  node.childNodes.forEach(child => {
+    if (child.nodeType === Node.TEXT_NODE) {
+      text += child.textContent?.replace(/\s+/g, ' ') ?? ''
+    } else if (child.nodeType === Node.ELEMENT_NODE) {
+      const tag = (child as Element).localName.toLowerCase()
+      if (tag === 'script' || tag === 'style') return
+      const inner = extractText(child)
+      text += BLOCK_TAGS.has(tag) ? `\n${inner}\n` : inner
+    }
+  })
+  return text
+}
+
+const normalizeLines = (text: string) => {
+  return text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .join('\n')
+}
+
+// 从 EPUB 3 的 nav 或 EPUB 2 的 NCX 中读取章节标题
+const readTocTitles = async (zip: ZipArchive, opfPath: string, opf: Document) => {
+  const titles = new Map<string, string>()
+  const items = elements(opf, 'item')
+
+  const navItem = items.find(item => (item.getAttribute('properties') || '').split(/\s+/).includes('nav'))
+  if (navItem) {
+    const navPath = resolvePath(opfPath, navItem.getAttribute('href') || '')
+    const navText = await zip.readText(navPath)
+    if (navText) {
+      const nav = parseXhtml(navText)
+      for (const link of elements(nav, 'a')) {
+        const href = link.getAttribute('href')
+        const title = link.textContent?.trim()
+        if (href && title) {
+          const path = resolvePath(navPath, href)
+          if (!titles.has(path)) titles.set(path, title)
+        }
+      }
+    }
+  }
+
+  if (titles.size === 0) {
+    const ncxId = elements(opf, 'spine')[0]?.getAttribute('toc')
+    const ncxItem = items.find(item => item.getAttribute('id') === ncxId)
+      || items.find(item => item.getAttribute('media-type') === 'application/x-dtbncx+xml')
+    if (ncxItem) {
+      const ncxPath = resolvePath(opfPath, ncxItem.getAttribute('href') || '')
+      const ncxText = await zip.readText(ncxPath)
+      if (ncxText) {
+        for (const point of elements(parseXml(ncxText), 'navPoint')) {
+          const src = elements(point, 'content')[0]?.getAttribute('src')
+          const title = elements(point, 'text')[0]?.textContent?.trim()
+          if (src && title) {
+            const path = resolvePath(ncxPath, src)
+            if (!titles.has(path)) titles.set(path, title)
+          }
+        }
+      }
+    }
+  }
+
+  return titles
+}
+
+/**
+ * 解析 EPUB：按 spine 顺序读取正文，章节标题取自目录（nav/NCX），
+ * 目录中没有的文档使用其中的第一个标题。
+ */
+export const parseEpub = async (data: Uint8Array): Promise<ParsedLocalBook> => {
+  const zip = new ZipArchive(data)
+
+  const containerText = await zip.readText('META-INF/container.xml')
+  if (!containerText) throw new Error('缺少 META-INF/container.xml')
+  const opfPath = elements(parseXml(containerText), 'rootfile')[0]?.getAttribute('full-path')
+  if (!opfPath) throw new Error('找不到 OPF 文件')
+
+  const opfText = await zip.readText(opfPath)
+  if (!opfText) throw new Error(`找不到 ${opfPath}`)
+  const opf = parseXml(opfText)
+
+  const meta = (name: string) => elements(opf, name)[0]?.textContent?.trim() || ''
+  const intro = normalizeLines(extractText(parseXhtml(`<div>${meta('description')}</div>`).documentElement))
+
+  const manifest = new Map(
+    elements(opf, 'item').map(item => [item.getAttribute('id') || '', item])
+  )
+  const titles = await readTocTitles(zip, opfPath, opf)
+  const chapters: LocalChapter[] = []
+
+  for (const itemref of elements(opf, 'itemref')) {
+    const item = manifest.get(itemref.getAttribute('idref') || '')
+    if (!item) continue
+    const mediaType = item.getAttribute('media-type') || ''
+    if (!mediaType.includes('html')) continue
+
+    const path = resolvePath(opfPath, item.getAttribute('href') || '')
+    const text = await zip.readText(path)
+    if (!text) continue
+
+    const doc = parseXhtml(text)
+    const body = elements(doc, 'body')[0] ?? doc.documentElement
+    const content = normalizeLines(extractText(body))
+    // 封面、版权页等没有正文的文档跳过
+    if (!content) continue
+
+    const heading = elements(body, 'h1')[0] ?? elements(body, 'h2')[0] ?? elements(body, 'h3')[0]
+    const title = titles.get(path) || heading?.textContent?.trim() || `第 ${chapters.length + 1} 节`
+    // 正文第一行与标题重复时去掉
+    const lines = content.split('\n')
+    if (lines[0] === title) lines.shift()
+    chapters.push({ title, content: lines.join('\n') })
+  }
+
+  if (chapters.length === 0) throw new Error('EPUB 中没有可读取的正文')
+
+  return {
+    name: meta('title'),
+    author: meta('creator'),
+    intro,
+    chapters
+  }
+}
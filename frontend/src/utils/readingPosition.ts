@@ -0,0 +1,32 @@
+// 本地保存的阅读位置（后端只记录章节，章节内位置保存在本地）
+export interface ReadingPosition {
+  chapterIndex: number
+  // 章节内的阅读比例（0-1），滚动模式和分页模式通用
+  progress: number
+  updatedAt: number
+}
+
+const POSITION_KEY_PREFIX = 'moyue:reading-position:'
+
+export const loadReadingPosition = (bookId: string): ReadingPosition | null => {
+  try {
+    const raw = localStorage.getItem(POSITION_KEY_PREFIX + bookId)
+    return raw ? JSON.parse(raw) : null
+  } catch (error) {
+    console.warn('读取阅读位置失败:', error)
+    return null
+  }
+}
+
+export const saveReadingPosition = (bookId: string, chapterIndex: number, progress: number) => {
+  const position: ReadingPosition = {
+    chapterIndex,
+    progress,
+    updatedAt: Date.now()
+  }
+  localStorage.setItem(POSITION_KEY_PREFIX + bookId, JSON.stringify(position))
+}
+
+export const removeReadingPosition = (bookId: string) => {
+  localStorage.removeItem(POSITION_KEY_PREFIX + bookId)
+}
@@ -0,0 +1,142 @@
+import type { BookSource, SourceCheckStage } from '@/api'
+import { dbGet, dbSet, dbGetAll, dbGetAllKeys, dbDelete, STORE_SOURCE_CHECKS } from './db'
+
+// 每个书源保留的检查记录数
+const MAX_RECORDS = 50
+
+export const CHECK_STAGE_LABELS: Record<SourceCheckStage, string> = {
+  site: '首页',
+  search: '搜索',
+  bookInfo: '详情',
+  toc: '目录',
+  content: '正文'
+}
+
+// 检查阶段的先后顺序
+export const CHECK_STAGES: SourceCheckStage[] = ['site', 'search', 'bookInfo', 'toc', 'content']
+
+// 一次检查的结果
+export interface SourceCheckRecord {
+  time: number
+  success: boolean
+  stage: SourceCheckStage | null
+  // 毫秒，旧版本后端没有返回耗时时为空
+  duration: number | null
+  message: string
+}
+
+export interface SourceCheckHistory {
+  sourceId: string
+  records: SourceCheckRecord[]
+}
+
+// healthy: 正常；degraded: 最近 N 次变差；dead: 最近 N 次全部失败；unknown: 检查次数不足
+export type SourceHealthTrend = 'healthy' | 'degraded' | 'dead' | 'unknown'
+
+export interface SourceHealthSummary {
+  trend: SourceHealthTrend
+  // 变差的原因，用于提示
+  reason: string
+  // 最近 N 次的成功率（0-1），没有记录时为空
+  successRate: number | null
+  averageDuration: number | null
+  // 最近 N 次中各阶段的失败次数
+  failedStages: Partial<Record<SourceCheckStage, number>>
+}
+
+const toRecord = (source: BookSource): SourceCheckRecord => ({
+  time: Date.now(),
+  success: source.checkStatus === 'success',
+  stage: source.checkStage ?? null,
+  duration: source.checkDuration ?? null,
+  message: source.checkMessage || ''
+})
+
+/**
+ * 记录检查结果
+ *
+ * 传入检查接口返回的书源，按 sourceId 追加到本地历史。
+ */
+export const recordSourceChecks = async (sources: BookSource[]) => {
+  for (const source of sources) {
+    const history = await dbGet<SourceCheckHistory>(STORE_SOURCE_CHECKS, source.sourceId)
+    const records = [...(history?.records ?? []), toRecord(source)].slice(-MAX_RECORDS)
+    await dbSet(STORE_SOURCE_CHECKS, source.sourceId, { sourceId: source.sourceId, records })
+  }
+}
+
+// 所有书源的检查历史，记录按时间升序
+export const getCheckHistories = async () => {
+  const histories = await dbGetAll<SourceCheckHistory>(STORE_SOURCE_CHECKS)
+  return new Map(histories.map(history => [history.sourceId, history.records]))
+}
+
+// 清理已删除书源的历史
+export const pruneCheckHistories = async (sourceIds: string[]) => {
+  const existing = new Set(sourceIds)
+  const keys = await dbGetAllKeys(STORE_SOURCE_CHECKS)
+  for (const key of keys) {
+    if (!existing.has(String(key))) await dbDelete(STORE_SOURCE_CHECKS, key)
+  }
+}
+
+export const clearCheckHistory = (sourceId: string) => dbDelete(STORE_SOURCE_CHECKS, sourceId)
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null
+
+const successRate = (records: SourceCheckRecord[]) =>
+  records.length > 0 ? records.filter(record => record.success).length / records.length : null
+
+/**
+ * 根据最近 window 次检查评估书源健康状况
+ *
+ * 最近 window 次全部失败（至少 3 次）视为失效；
+ * 成功率低于之前的 window 次、或平均耗时翻倍视为变差。
+ */
+export const assessSourceHealth = (records: SourceCheckRecord[], window: number): SourceHealthSummary => {
+  const recent = records.slice(-window)
+  const previous = records.slice(-window * 2, -window)
+
+  const failedStages: SourceHealthSummary['failedStages'] = {}
+  for (const record of recent) {
+    if (!record.success && record.stage) failedStages[record.stage] = (failedStages[record.stage] ?? 0) + 1
+  }
+
+  const rate = successRate(recent)
+  const previousRate = successRate(previous)
+  const duration = average(recent.filter(r => r.success && r.duration !== null).map(r => r.duration!))
+  const previousDuration = average(previous.filter(r => r.success && r.duration !== null).map(r => r.duration!))
+  const summary = { successRate: rate, averageDuration: duration, failedStages }
+
+  if (rate === null) return { ...summary, trend: 'unknown', reason: '还没有检查记录' }
+  if (rate === 0 && recent.length >= Math.min(window, 3)) {
+    return { ...summary, trend: 'dead', reason: `最近 ${recent.length} 次检查全部失败` }
+  }
+  if (previousRate !== null && rate < previousRate) {
+    return {
+      ...summary,
+      trend: 'degraded',
+      reason: `成功率从 ${Math.round(previousRate * 100)}% 降到 ${Math.round(rate * 100)}%`
+    }
+  }
+  if (previousRate === null && rate < 0.5) {
+    return { ...summary, trend: 'degraded', reason: `成功率只有 ${Math.round(rate * 100)}%` }
+  }
+  if (duration !== null && previousDuration !== null && duration >= previousDuration * 2) {
+    return {
+      ...summary,
+      trend: 'degraded',
+      reason: `平均耗时从 ${Math.round(previousDuration)}ms 增加到 ${Math.round(duration)}ms`
+    }
+  }
+  if (recent.length < Math.min(window, 3)) return { ...summary, trend: 'unknown', reason: '检查次数不足' }
+  return { ...summary, trend: 'healthy', reason: '' }
+}
+
+// 按检查阶段顺序列出失败次数
+export const failedStageEntries = (failedStages: SourceHealthSummary['failedStages']) =>
+  CHECK_STAGES.flatMap(stage => {
+    const count = failedStages[stage]
+    return count ? [{ stage, count }] : []
+  })
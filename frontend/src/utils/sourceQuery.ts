@@ -0,0 +1,208 @@
+import type { BookSource } from '@/api'
+import { splitGroups } from './legado'
+
+/**
+ * 书源列表的查询语法
+ *
+ * 例如 `group:漫画 rating:>=3 enabled:true 笔趣`：
+ * - group:名称        属于该分组，可以写多个，满足任意一个即可；group:none 表示未分组
+ * - enabled:true|false
+ * - rating:3 / rating:>=3 / rating:2..4 / rating:none（未评级）
+ * - health:ok|failed|unchecked  最近一次检查结果
+ * 其余文字匹配名称、作者、URL 和分组，值中有空格时用双引号括起来。
+ */
+
+export type SourceHealthFilter = 'ok' | 'failed' | 'unchecked'
+
+export interface SourceQuery {
+  keywords: string[]
+  groups: string[]
+  enabled: boolean | null
+  // 评级范围（含端点），未评级按 0 计算
+  ratingMin: number | null
+  ratingMax: number | null
+  health: SourceHealthFilter[]
+}
+
+export type SourceSortKey = 'name' | 'weight' | 'rating' | 'health' | 'group'
+
+export interface SourceSort {
+  key: SourceSortKey
+  order: 'asc' | 'desc'
+}
+
+export const NO_GROUP = 'none'
+
+export const HEALTH_FILTERS: SourceHealthFilter[] = ['ok', 'failed', 'unchecked']
+
+export const MAX_RATING = 5
+
+export const emptySourceQuery = (): SourceQuery => ({
+  keywords: [],
+  groups: [],
+  enabled: null,
+  ratingMin: null,
+  ratingMax: null,
+  health: []
+})
+
+const TOKEN_PATTERN = /([a-z]+):(?:"([^"]*)"|(\S*))|"([^"]*)"|(\S+)/gi
+
+const quote = (value: string) => (/[\s"]/.test(value) || value.includes(':') ? `"${value.replace(/"/g, '')}"` : value)
+
+const clampRating = (value: number) => Math.min(Math.max(Math.round(value), 0), MAX_RATING)
+
+const parseRating = (query: SourceQuery, value: string) => {
+  if (value === 'none') {
+    query.ratingMin = 0
+    query.ratingMax = 0
+    return true
+  }
+
+  const range = value.match(/^(\d+)\.\.(\d+)$/)
+  if (range) {
+    query.ratingMin = clampRating(Number(range[1]))
+    query.ratingMax = clampRating(Number(range[2]))
+    return true
+  }
+
+  const compare = value.match(/^(>=|<=|>|<|=)?(\d+)$/)
+  if (!compare) return false
+  const rating = Number(compare[2])
+  switch (compare[1]) {
+    case '>=': query.ratingMin = clampRating(rating); break
+    case '>': query.ratingMin = clampRating(rating + 1); break
+    case '<=': query.ratingMax = clampRating(rating); break
+    case '<': query.ratingMax = clampRating(rating - 1); break
+    default:
+      query.ratingMin = clampRating(rating)
+      query.ratingMax = clampRating(rating)
+  }
+  return true
+}
+
+// 无法识别的条件按普通文字处理
+export const parseSourceQuery = (input: string): SourceQuery => {
+  const query = emptySourceQuery()
+
+  for (const match of input.matchAll(TOKEN_PATTERN)) {
+    const [raw, field, quoted, plain, quotedText, text] = match
+    if (!field) {
+      const keyword = (quotedText ?? text ?? '').trim()
+      if (keyword) query.keywords.push(keyword)
+      continue
+    }
+
+    const value = (quoted ?? plain ?? '').trim()
+    const key = field.toLowerCase()
+    let recognized = value !== ''
+
+    if (recognized && key === 'group') {
+      if (!query.groups.includes(value)) query.groups.push(value)
+    } else if (recognized && key === 'enabled' && (value === 'true' || value === 'false')) {
+      query.enabled = value === 'true'
+    } else if (recognized && key === 'rating') {
+      recognized = parseRating(query, value)
+    } else if (recognized && key === 'health' && HEALTH_FILTERS.includes(value as SourceHealthFilter)) {
+      if (!query.health.includes(value as SourceHealthFilter)) query.health.push(value as SourceHealthFilter)
+    } else {
+      recognized = false
+    }
+
+    if (!recognized) query.keywords.push(raw)
+  }
+
+  return query
+}
+
+const formatRating = (min: number | null, max: number | null) => {
+  if (min === null && max === null) return null
+  if (min !== null && max !== null) {
+    if (min === 0 && max === 0) return 'none'
+    return min === max ? String(min) : `${min}..${max}`
+  }
+  return min !== null ? `>=${min}` : `<=${max}`
+}
+
+export const stringifySourceQuery = (query: SourceQuery) => {
+  const parts: string[] = []
+  for (const group of query.groups) parts.push(`group:${quote(group)}`)
+  if (query.enabled !== null) parts.push(`enabled:${query.enabled}`)
+  const rating = formatRating(query.ratingMin, query.ratingMax)
+  if (rating) parts.push(`rating:${rating}`)
+  for (const health of query.health) parts.push(`health:${health}`)
+  for (const keyword of query.keywords) {
+    // 无法识别的条件原样保留
+    parts.push(/^[a-z]+:/i.test(keyword) || !/\s/.test(keyword) ? keyword : `"${keyword}"`)
+  }
+  return parts.join(' ')
+}
+
+export const sourceHealthOf = (source: BookSource): SourceHealthFilter => {
+  if (source.checkStatus === 'success') return 'ok'
+  if (source.checkStatus === 'failed') return 'failed'
+  return 'unchecked'
+}
+
+export const matchSourceQuery = (source: BookSource, query: SourceQuery) => {
+  const groups = splitGroups(source.group)
+
+  if (query.groups.length > 0) {
+    const matched = query.groups.some(group => (group === NO_GROUP ? groups.length === 0 : groups.includes(group)))
+    if (!matched) return false
+  }
+  if (query.enabled !== null && source.enabled !== query.enabled) return false
+
+  const rating = source.securityRating ?? 0
+  if (query.ratingMin !== null && rating < query.ratingMin) return false
+  if (query.ratingMax !== null && rating > query.ratingMax) return false
+
+  if (query.health.length > 0 && !query.health.includes(sourceHealthOf(source))) return false
+
+  if (query.keywords.length === 0) return true
+  const haystack = [source.name, source.author, source.url, source.group]
+    .filter(Boolean)
+    .join('\n')
+    .toLowerCase()
+  return query.keywords.every(keyword => haystack.includes(keyword.toLowerCase()))
+}
+
+// 可用 > 未检查 > 失效
+const HEALTH_RANK: Record<SourceHealthFilter, number> = { ok: 2, unchecked: 1, failed: 0 }
+
+const compareText = (a: string, b: string) => {
+  // 空值总是排在最后
+  if (!a || !b) return Number(!a) - Number(!b)
+  return a.localeCompare(b)
+}
+
+export const sortSources = (sources: BookSource[], sort: SourceSort | null) => {
+  if (!sort) return sources
+  const direction = sort.order === 'asc' ? 1 : -1
+
+  const compare = (a: BookSource, b: BookSource): number => {
+    switch (sort.key) {
+      case 'weight': return (a.weight - b.weight) * direction
+      case 'rating': return ((a.securityRating ?? 0) - (b.securityRating ?? 0)) * direction
+      case 'health': return (HEALTH_RANK[sourceHealthOf(a)] - HEALTH_RANK[sourceHealthOf(b)]) * direction
+      case 'group': {
+        const [groupA, groupB] = [splitGroups(a.group)[0] ?? '', splitGroups(b.group)[0] ?? '']
+        return groupA && groupB ? compareText(groupA, groupB) * direction : compareText(groupA, groupB)
+      }
+      default: return a.name.localeCompare(b.name) * direction
+    }
+  }
+
+  return [...sources].sort(compare)
+}
+
+// URL 中的排序参数，例如 weight-desc
+export const parseSourceSort = (value: unknown): SourceSort | null => {
+  if (typeof value !== 'string') return null
+  const [key, order] = value.split('-')
+  if (!['name', 'weight', 'rating', 'health', 'group'].includes(key)) return null
+  if (order !== 'asc' && order !== 'desc') return null
+  return { key: key as SourceSortKey, order }
+}
+
+export const stringifySourceSort = (sort: SourceSort | null) => (sort ? `${sort.key}-${sort.order}` : undefined)
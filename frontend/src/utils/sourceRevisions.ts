@@ -0,0 +1,77 @@
+import type { BookSourceRules, SourceImportItem } from '@/api'
+import { dbGet, dbSet, STORE_SOURCE_REVISIONS } from './db'
+import { RULE_FIELDS } from './legado'
+
+// 每个书源保留的版本数
+const MAX_REVISIONS = 30
+
+// 书源快照与导入格式相同，回退时直接覆盖导入
+export type SourceSnapshot = SourceImportItem
+
+export interface SourceRevision {
+  time: number
+  // 产生该版本的操作，例如“编辑”“回退”
+  label: string
+  snapshot: SourceSnapshot
+}
+
+interface SourceRevisionHistory {
+  sourceId: string
+  revisions: SourceRevision[]
+}
+
+/**
+ * 生成书源快照
+ *
+ * 只保留用户可以修改的字段并固定字段顺序，检查状态、时间等不算作版本变化；
+ * 也用于把待导入的书源转换成同样的格式进行对比。
+ */
+export const toSourceSnapshot = (
+  source: SourceImportItem['source'],
+  rules?: Omit<BookSourceRules, 'id'> | null
+): SourceSnapshot => {
+  const snapshot: SourceSnapshot = {
+    source: {
+      sourceId: source.sourceId,
+      name: source.name,
+      icon: source.icon ?? null,
+      url: source.url ?? null,
+      author: source.author ?? null,
+      group: source.group ?? null,
+      enabled: source.enabled ?? true,
+      weight: source.weight ?? 0,
+      securityRating: source.securityRating ?? null
+    },
+    rules: null
+  }
+  if (rules) {
+    const picked: Omit<BookSourceRules, 'id'> = { ruleId: source.sourceId, enabled: rules.enabled }
+    for (const field of RULE_FIELDS) picked[field] = rules[field] ?? null
+    snapshot.rules = picked
+  }
+  return snapshot
+}
+
+export const formatSnapshot = (snapshot: SourceSnapshot) => JSON.stringify(snapshot, null, 2)
+
+// 版本按时间升序
+export const getSourceRevisions = async (sourceId: string) => {
+  const history = await dbGet<SourceRevisionHistory>(STORE_SOURCE_REVISIONS, sourceId)
+  return history?.revisions ?? []
+}
+
+// 与最近一个版本相同时不记录
+export const addSourceRevision = async (snapshot: SourceSnapshot, label: string) => {
+  const sourceId = snapshot.source.sourceId
+  const revisions = await getSourceRevisions(sourceId)
+  const last = revisions[revisions.length - 1]
+  if (last && formatSnapshot(last.snapshot) === formatSnapshot(snapshot)) return false
+
+  // 快照可能来自响应式对象，先转换为普通对象再写入
+  const revision: SourceRevision = { time: Date.now(), label, snapshot: JSON.parse(JSON.stringify(snapshot)) }
+  await dbSet(STORE_SOURCE_REVISIONS, sourceId, {
+    sourceId,
+    revisions: [...revisions, revision].slice(-MAX_REVISIONS)
+  })
+  return true
+}
@@ -0,0 +1,80 @@
+// 读取 ZIP 文件（用于解析 EPUB），支持存储和 deflate 两种方式
+
+export interface UnzipEntry {
+  path: string
+  method: number
+  compressedSize: number
+  offset: number
+}
+
+export class ZipArchive {
+  private readonly data: Uint8Array
+  private readonly view: DataView
+  readonly entries: Map<string, UnzipEntry>
+
+  constructor(data: Uint8Array) {
+    this.data = data
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+    this.entries = this.readCentralDirectory()
+  }
+
+  // 从文件末尾向前查找中央目录结束记录
+  private findEndOfCentralDirectory() {
+    for (let i = this.data.length - 22; i >= Math.max(0, this.data.length - 65557); i--) {
+      if (this.view.getUint32(i, true) === 0x06054b50) return i
+    }
+    throw new Error('不是有效的 ZIP 文件')
+  }
+
+  private readCentralDirectory() {
+    const end = this.findEndOfCentralDirectory()
+    const count = this.view.getUint16(end + 10, true)
+    let position = this.view.getUint32(end + 16, true)
+    const decoder = new TextDecoder()
+    const entries = new Map<string, UnzipEntry>()
+
+    for (let i = 0; i < count; i++) {
+      if (this.view.getUint32(position, true) !== 0x02014b50) {
+        throw new Error('ZIP 中央目录已损坏')
+      }
+      const method = this.view.getUint16(position + 10, true)
+      const compressedSize = this.view.getUint32(position + 20, true)
+      const nameLength = this.view.getUint16(position + 28, true)
+      const extraLength = this.view.getUint16(position + 30, true)
+      const commentLength = this.view.getUint16(position + 32, true)
+      const localOffset = this.view.getUint32(position + 42, true)
+      const path = decoder.decode(this.data.subarray(position + 46, position + 46 + nameLength))
+
+      // 数据起始位置需要跳过本地文件头（其扩展字段长度可能与中央目录不同）
+      const localNameLength = this.view.getUint16(localOffset + 26, true)
+      const localExtraLength = this.view.getUint16(localOffset + 28, true)
+      entries.set(path, {
+        path,
+        method,
+        compressedSize,
+        offset: localOffset + 30 + localNameLength + localExtraLength
+      })
+
+      position += 46 + nameLength + extraLength + commentLength
+    }
+
+    return entries
+  }
+
+  async read(path: string): Promise<Uint8Array | null> {
+    const entry = this.entries.get(path)
+    if (!entry) return null
+
+    const raw = this.data.subarray(entry.offset, entry.offset + entry.compressedSize)
+    if (entry.method === 0) return raw
+    if (entry.method !== 8) throw new Error(`不支持的压缩方式: ${entry.method}`)
+
+    const stream = new Blob([raw]).stream().pipeThrough(new DecompressionStream('deflate-raw'))
+    return new Uint8Array(await new Response(stream).arrayBuffer())
+  }
+
+  async readText(path: string): Promise<string | null> {
+    const data = await this.read(path)
+    return data ? new TextDecoder().decode(data) : null
+  }
+}
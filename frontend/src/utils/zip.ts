@@ -0,0 +1,108 @@
+// 最小 ZIP 打包（仅存储，不压缩），用于生成 EPUB
+//
+// EPUB 要求 mimetype 作为第一个文件且不压缩，这里所有文件都按存储方式写入，
+// 体积会大一些，但不需要额外的压缩库。
+
+export interface ZipEntry {
+  path: string
+  data: Uint8Array | string
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// DOS 格式的日期和时间
+const dosDateTime = (date: Date) => {
+  const time = (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1)
+  const day = ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  return { time, day }
+}
+
+export const createZip = (entries: ZipEntry[]): Uint8Array => {
+  const encoder = new TextEncoder()
+  const { time, day } = dosDateTime(new Date())
+  const chunks: Uint8Array[] = []
+  const central: Uint8Array[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path)
+    const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data
+    const crc = crc32(data)
+
+    // 本地文件头
+    const local = new Uint8Array(30 + name.length)
+    const localView = new DataView(local.buffer)
+    localView.setUint32(0, 0x04034b50, true)
+    localView.setUint16(4, 20, true)
+    // 第 11 位：文件名使用 UTF-8
+    localView.setUint16(6, 0x0800, true)
+    localView.setUint16(8, 0, true)
+    localView.setUint16(10, time, true)
+    localView.setUint16(12, day, true)
+    localView.setUint32(14, crc, true)
+    localView.setUint32(18, data.length, true)
+    localView.setUint32(22, data.length, true)
+    localView.setUint16(26, name.length, true)
+    localView.setUint16(28, 0, true)
+    local.set(name, 30)
+
+    // 中央目录记录
+    const record = new Uint8Array(46 + name.length)
+    const recordView = new DataView(record.buffer)
+    recordView.setUint32(0, 0x02014b50, true)
+    recordView.setUint16(4, 20, true)
+    recordView.setUint16(6, 20, true)
+    recordView.setUint16(8, 0x0800, true)
+    recordView.setUint16(10, 0, true)
+    recordView.setUint16(12, time, true)
+    recordView.setUint16(14, day, true)
+    recordView.setUint32(16, crc, true)
+    recordView.setUint32(20, data.length, true)
+    recordView.setUint32(24, data.length, true)
+    recordView.setUint16(28, name.length, true)
+    recordView.setUint32(42, offset, true)
+    record.set(name, 46)
+
+    chunks.push(local, data)
+    central.push(record)
+    offset += local.length + data.length
+  }
+
+  const centralSize = central.reduce((sum, record) => sum + record.length, 0)
+
+  // 中央目录结束记录
+  const end = new Uint8Array(22)
+  const endView = new DataView(end.buffer)
+  endView.setUint32(0, 0x06054b50, true)
+  endView.setUint16(8, entries.length, true)
+  endView.setUint16(10, entries.length, true)
+  endView.setUint32(12, centralSize, true)
+  endView.setUint32(16, offset, true)
+
+  const parts = [...chunks, ...central, end]
+  const result = new Uint8Array(offset + centralSize + end.length)
+  let position = 0
+  for (const part of parts) {
+    result.set(part, position)
+    position += part.length
+  }
+  return result
+}
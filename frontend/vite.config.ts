@@ -68,7 +68,6 @@ export default defineConfig(({ mode }) => {
         '/api': {
           target: env.VITE_API_URL || 'http://localhost:18080',
           changeOrigin: true,
-          rewrite: (path) => path.replace(/^\/api/, ''),
         },
         '/ws': {
           target: env.VITE_WS_URL || 'ws://localhost:18080',
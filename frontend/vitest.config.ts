@@ -0,0 +1,15 @@
+import { defineConfig } from 'vitest/config'
+import path from 'path'
+
+// 单元测试不需要 vite.config.ts 中的自动导入和构建配置
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, 'src'),
+    },
+  },
+  test: {
+    environment: 'node',
+    include: ['electron/**/*.test.ts', 'src/**/*.test.ts'],
+  },
+})